@@ -8,7 +8,24 @@ import BodyTrainer from './components/BodyTrainer';
 import ImageClassifier from './components/ImageClassifier';
 import CombinationClassifier from './components/CombinationClassifier';
 import ObjectDetector from './components/ObjectDetector';
-import { HandPosePrediction, FaceMeshPrediction, BodyPosePrediction, ObjectDetectionResult } from './types';
+import InputSourceSelector from './components/InputSourceSelector';
+import CameraSettingsPanel from './components/CameraSettingsPanel';
+import SessionRecorder from './components/SessionRecorder';
+import ProjectMenu from './components/ProjectMenu';
+import RegressionOutputs from './components/RegressionOutputs';
+import { COMBINATION_RULES_STORAGE_KEY } from './components/CombinationClassifier';
+import { HandPosePrediction, FaceMeshPrediction, BodyPosePrediction, TrackedPerson, PersonClassification, ClassificationResult, ClassificationSource, ObjectDetectionResult, InputSource, CameraSettings, CameraStreamInfo, LandmarkSession, ObjectDetectorSettings } from './types';
+import { loadCameraSettings, saveCameraSettings } from './utils/cameraSettings';
+import { SessionRecorder as LandmarkRecorder } from './utils/landmarkSession';
+import { TrainerProjectHandle, TrainerSnapshot } from './hooks/useTrainer';
+import { Modality, getFeatureExtractors } from './utils/featureExtractors';
+import { loadLastExtractorId, loadTrainerSnapshot } from './utils/trainerStore';
+import { downloadProject, unpackProject } from './utils/projectFile';
+import { createPersonTracker } from './utils/personTracker';
+import { DEFAULT_SMOOTHING_OPTIONS, createResultSmoother } from './utils/resultSmoothing';
+
+// Confidence change that re-renders the combination panel when the label stays the same
+const CLASSIFICATION_CONFIDENCE_STEP = 0.05;
 
 function App() {
   const [isCameraActive, setIsCameraActive] = useState(false);
@@ -27,6 +44,14 @@ function App() {
     object: false,
   });
   const [bodyPoseModel, setBodyPoseModel] = useState<'MoveNet' | 'BlazePose'>('MoveNet');
+  const [inputSource, setInputSource] = useState<InputSource>({ kind: 'camera' });
+  // Remember the selected camera between visits
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameraStreamInfo, setCameraStreamInfo] = useState<CameraStreamInfo | null>(null);
+  const sourceName = inputSource.kind === 'camera' ? 'Camera'
+    : inputSource.kind === 'video' ? 'Video'
+    : inputSource.kind === 'images' ? 'Images'
+    : 'Replay';
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   
   // Use Ref instead of State for high-frequency data to prevent re-renders (60fps)
@@ -34,15 +59,42 @@ function App() {
   const faceMeshResultsRef = useRef<FaceMeshPrediction[]>([]);
   const bodyPoseResultsRef = useRef<BodyPosePrediction[]>([]);
   const objectDetectionsRef = useRef<ObjectDetectionResult[]>([]);
+  // Multi-person body tracking: stable ids per frame + latest per-person classification
+  const personTrackerRef = useRef(createPersonTracker());
+  const trackedPeopleRef = useRef<TrackedPerson[]>([]);
+  const personResultsRef = useRef<PersonClassification[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Active landmark recorder (null when not recording)
+  const sessionRecorderRef = useRef<LandmarkRecorder | null>(null);
+
+  // Store latest classification results (label, every score, source, model) for combination classifier
+  // (results arrive every inference tick - the ref keeps the latest, state only updates on a visible change)
+  const [classifications, setClassifications] = useState<Partial<Record<ClassificationSource, ClassificationResult>>>({});
+  const publishedClassificationsRef = useRef<Partial<Record<ClassificationSource, ClassificationResult>>>({});
+  // Regression trainers: latest continuous outputs (output name -> value) per modality
+  const [regressionOutputs, setRegressionOutputs] = useState<Partial<Record<Modality, Record<string, number>>>>({});
+
+  // Project file: live handles of mounted panels + loaded state waiting for its panel to mount
+  const trainerRefs = {
+    hand: useRef<TrainerProjectHandle | null>(null),
+    face: useRef<TrainerProjectHandle | null>(null),
+    body: useRef<TrainerProjectHandle | null>(null)
+  };
+  const objectSettingsRef = useRef<ObjectDetectorSettings | null>(null);
+  const objectSmootherRef = useRef(createResultSmoother());
+  const [pendingSnapshots, setPendingSnapshots] = useState<Partial<Record<Modality, TrainerSnapshot>>>({});
+  const [pendingObjectSettings, setPendingObjectSettings] = useState<ObjectDetectorSettings | null>(null);
+  const [combinationKey, setCombinationKey] = useState(0); // remount to reload rules from localStorage
 
-  // Store latest classification results for combination classifier
-  const [faceClassification, setFaceClassification] = useState<string>('');
-  const [handClassification, setHandClassification] = useState<string>('');
-  const [bodyClassification, setBodyClassification] = useState<string>('');
-  const [imageClassification, setImageClassification] = useState<string>('');
-  const [objectClassification, setObjectClassification] = useState<string>('');
+  useEffect(() => {
+    saveCameraSettings(cameraSettings);
+  }, [cameraSettings]);
 
+  const resetPersonTracking = () => {
+    personTrackerRef.current.reset();
+    trackedPeopleRef.current = [];
+    personResultsRef.current = [];
+  };
 
   const toggleCamera = () => {
     setIsCameraActive(!isCameraActive);
@@ -59,6 +111,9 @@ function App() {
       faceMeshResultsRef.current = [];
       bodyPoseResultsRef.current = [];
       objectDetectionsRef.current = [];
+      objectSmootherRef.current.reset();
+      resetPersonTracking();
+      setRegressionOutputs({});
     }
   };
 
@@ -72,8 +127,20 @@ function App() {
     if (activeModes[mode]) {
       if (mode === 'hand') handPoseResultsRef.current = [];
       if (mode === 'face') faceMeshResultsRef.current = [];
-      if (mode === 'body') bodyPoseResultsRef.current = [];
-      if (mode === 'object') objectDetectionsRef.current = [];
+      if (mode === 'body') {
+        bodyPoseResultsRef.current = [];
+        resetPersonTracking();
+      }
+      if (mode === 'object') {
+        objectDetectionsRef.current = [];
+        objectSmootherRef.current.reset();
+      }
+      if (mode === 'hand' || mode === 'face' || mode === 'body') {
+        setRegressionOutputs(prev => {
+          const { [mode]: _, ...rest } = prev;
+          return rest;
+        });
+      }
     }
   };
 
@@ -84,28 +151,123 @@ function App() {
   // Optimization: Update ref directly, do not trigger React state update
   const handleHandResults = useCallback((results: HandPosePrediction[]) => {
       handPoseResultsRef.current = results;
+      sessionRecorderRef.current?.record('hand', results);
   }, []);
 
   const handleFaceResults = useCallback((results: FaceMeshPrediction[]) => {
       faceMeshResultsRef.current = results;
+      sessionRecorderRef.current?.record('face', results);
   }, []);
 
   const handleBodyResults = useCallback((results: BodyPosePrediction[]) => {
       bodyPoseResultsRef.current = results;
+      trackedPeopleRef.current = personTrackerRef.current.update(results);
+      sessionRecorderRef.current?.record('body', results);
   }, []);
 
-  const handleObjectResults = useCallback((results: ObjectDetectionResult[]) => {
-      objectDetectionsRef.current = results;
-      if (results && results.length > 0) {
-        const top = results.reduce((best, current) =>
-          current.confidence > best.confidence ? current : best
-        );
-        setObjectClassification(top.label);
-      } else {
-        setObjectClassification('');
-      }
+  const handlePersonResults = useCallback((results: PersonClassification[]) => {
+      personResultsRef.current = results;
+  }, []);
+
+  const handleClassification = useCallback((result: ClassificationResult) => {
+      const published = publishedClassificationsRef.current[result.source];
+      if (
+        published &&
+        published.label === result.label &&
+        published.modelId === result.modelId &&
+        Math.abs(published.confidence - result.confidence) < CLASSIFICATION_CONFIDENCE_STEP
+      ) return;
+
+      publishedClassificationsRef.current = { ...publishedClassificationsRef.current, [result.source]: result };
+      setClassifications(publishedClassificationsRef.current);
+  }, []);
+
+  const handleRegressionResult = useCallback((modality: Modality, values: Record<string, number>) => {
+      setRegressionOutputs(prev => ({ ...prev, [modality]: values }));
+  }, []);
+
+  const handleReplaySession = useCallback((session: LandmarkSession, name: string) => {
+      setInputSource({ kind: 'session', session, name, loop: false });
   }, []);
 
+  const clearPendingSnapshot = useCallback((modality: Modality) => {
+      setPendingSnapshots(prev => {
+        const { [modality]: _, ...rest } = prev;
+        return rest;
+      });
+  }, []);
+
+  const saveProject = async (name: string) => {
+    try {
+      const trainers: Partial<Record<Modality, TrainerSnapshot>> = {};
+      for (const modality of ['hand', 'face', 'body'] as Modality[]) {
+        const handle = trainerRefs[modality].current;
+        // Unmounted trainers: loaded project state, else the autosave of the extractor the trainer reopens with
+        const extractorId = loadLastExtractorId(modality) ?? getFeatureExtractors(modality)[0].id;
+        const snapshot = handle ? await handle.getSnapshot()
+          : pendingSnapshots[modality] ?? await loadTrainerSnapshot(extractorId).catch(error => {
+              console.error(`Failed to read autosaved ${modality} trainer:`, error);
+              return null;
+            });
+        if (snapshot) trainers[modality] = snapshot;
+      }
+
+      let combinationRules: unknown[] | null = null;
+      try {
+        combinationRules = JSON.parse(localStorage.getItem(COMBINATION_RULES_STORAGE_KEY) || 'null');
+      } catch (error) {
+        console.error('Failed to read combination rules:', error);
+      }
+
+      downloadProject({
+        trainers,
+        objectDetector: objectSettingsRef.current ?? pendingObjectSettings,
+        combinationRules
+      }, name);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Failed to save project.');
+    }
+  };
+
+  const openProject = async (file: File) => {
+    try {
+      const project = unpackProject(new Uint8Array(await file.arrayBuffer()));
+
+      setPendingSnapshots(project.trainers);
+      setPendingObjectSettings(project.objectDetector);
+
+      if (project.combinationRules) {
+        localStorage.setItem(COMBINATION_RULES_STORAGE_KEY, JSON.stringify(project.combinationRules));
+        setCombinationKey(key => key + 1);
+      }
+
+      const names: Record<Modality, string> = { hand: 'Hand Pose', face: 'Face Mesh', body: 'Body Pose' };
+      const loaded = (Object.keys(project.trainers) as Modality[]).map(modality => names[modality]);
+      alert(loaded.length > 0
+        ? `Project loaded! Enable ${loaded.join(', ')} to see the restored trainers.`
+        : 'Project loaded!');
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(error instanceof Error
+        ? `Failed to open project:\n${error.message}`
+        : 'Failed to open project. Please check that it is a .visionlab file.');
+    }
+  };
+
+  const handleObjectResults = useCallback((results: ObjectDetectionResult[], modelName: string) => {
+      objectDetectionsRef.current = results;
+      // Best confidence per label, most confident first
+      const scores = new Map<string, number>();
+      (results ?? []).forEach(({ label, confidence }) => scores.set(label, Math.max(scores.get(label) ?? 0, confidence)));
+      const ranked = Array.from(scores, ([label, confidence]) => ({ label, confidence }))
+        .sort((a, b) => b.confidence - a.confidence);
+
+      // Top object smoothed over frames ('' = nothing detected also has to settle first)
+      const top = objectSmootherRef.current.update(ranked, objectSettingsRef.current?.smoothing ?? DEFAULT_SMOOTHING_OPTIONS);
+      handleClassification({ ...top, scores: ranked, timestamp: Date.now(), source: 'object', modelId: modelName });
+  }, [handleClassification]);
+
   return (
     <div className="h-screen bg-gray-900 text-white flex flex-col font-sans overflow-hidden">
       {/* Header - Fixed at top */}
@@ -152,9 +314,33 @@ function App() {
                     : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
                   }
                </svg>
-               {isCameraActive ? 'Stop Camera' : 'Start Camera'}
+               {isCameraActive ? `Stop ${sourceName}` : `Start ${sourceName}`}
              </button>
 
+             {/* Input Source Selector */}
+             <InputSourceSelector source={inputSource} onChange={setInputSource} />
+
+             {/* Camera Device Settings - Only relevant for the live camera */}
+             {inputSource.kind === 'camera' && (
+               <CameraSettingsPanel
+                 settings={cameraSettings}
+                 onChange={setCameraSettings}
+                 streamInfo={cameraStreamInfo}
+               />
+             )}
+
+             {/* Landmark Session Recorder */}
+             <SessionRecorder
+               recorderRef={sessionRecorderRef}
+               videoRef={videoRef}
+               mirrored={inputSource.kind === 'camera' && !!cameraStreamInfo?.mirrored}
+               disabled={!isCameraActive || inputSource.kind === 'session'}
+               onReplay={handleReplaySession}
+             />
+
+             {/* Project Save / Open */}
+             <ProjectMenu onSave={saveProject} onOpen={openProject} />
+
              {/* Detection Mode Selectors */}
              <div className="flex flex-wrap items-center gap-2">
               {[
@@ -229,18 +415,23 @@ function App() {
                   isActive={isCameraActive} 
                   activeModes={activeModes}
                   bodyPoseModel={bodyPoseModel}
+                  inputSource={inputSource}
+                  cameraSettings={cameraSettings}
+                  onCameraInfo={setCameraStreamInfo}
                   onCapture={handleCapture}
                   onHandResults={handleHandResults}
                   onFaceResults={handleFaceResults}
                   onBodyResults={handleBodyResults}
                   objectDetectionsRef={objectDetectionsRef}
+                  trackedPeopleRef={trackedPeopleRef}
+                  personResultsRef={personResultsRef}
                   videoRef={videoRef}
                 />
               </div>
               
               {!(isCameraActive && (activeModes.hand || activeModes.face || activeModes.body || activeModes.classifier || activeModes.object)) && (
                 <div className="text-center text-gray-500 text-sm mt-4">
-                  <p>1. Start the camera. 2. Select one or more detection modes (Face, Hand, Body, Classifier, Object). 3. Capture a photo to edit with AI.</p>
+                  <p>1. Start the camera (or pick a video / image folder). 2. Select one or more detection modes (Face, Hand, Body, Classifier, Object). 3. Capture a photo to edit with AI.</p>
                 </div>
               )}
             </div>
@@ -253,7 +444,11 @@ function App() {
                   <div className="w-full flex-shrink-0">
                     <GestureTrainer 
                       handPoseDataRef={handPoseResultsRef}
-                      onClassificationResult={setHandClassification}
+                      onClassificationResult={handleClassification}
+                      onRegressionResult={(values) => handleRegressionResult('hand', values)}
+                      projectRef={trainerRefs.hand}
+                      pendingSnapshot={pendingSnapshots.hand}
+                      onSnapshotRestored={() => clearPendingSnapshot('hand')}
                     />
                   </div>
                 )}
@@ -263,7 +458,11 @@ function App() {
                   <div className="w-full flex-shrink-0">
                     <FaceTrainer 
                       faceMeshDataRef={faceMeshResultsRef}
-                      onClassificationResult={setFaceClassification}
+                      onClassificationResult={handleClassification}
+                      onRegressionResult={(values) => handleRegressionResult('face', values)}
+                      projectRef={trainerRefs.face}
+                      pendingSnapshot={pendingSnapshots.face}
+                      onSnapshotRestored={() => clearPendingSnapshot('face')}
                     />
                   </div>
                 )}
@@ -273,7 +472,13 @@ function App() {
                   <div className="w-full flex-shrink-0">
                     <BodyTrainer 
                       bodyPoseDataRef={bodyPoseResultsRef}
-                      onClassificationResult={setBodyClassification}
+                      onClassificationResult={handleClassification}
+                      onRegressionResult={(values) => handleRegressionResult('body', values)}
+                      trackedPeopleRef={trackedPeopleRef}
+                      onPersonResults={handlePersonResults}
+                      projectRef={trainerRefs.body}
+                      pendingSnapshot={pendingSnapshots.body}
+                      onSnapshotRestored={() => clearPendingSnapshot('body')}
                     />
                   </div>
                 )}
@@ -284,7 +489,7 @@ function App() {
                     <ImageClassifier 
                       videoRef={videoRef} 
                       isActive={isCameraActive && activeModes.classifier}
-                      onClassificationResult={setImageClassification}
+                      onClassificationResult={handleClassification}
                     />
                   </div>
                 )}
@@ -296,10 +501,16 @@ function App() {
                       videoRef={videoRef}
                       isActive={isCameraActive && activeModes.object}
                       onDetections={handleObjectResults}
+                      settingsRef={objectSettingsRef}
+                      pendingSettings={pendingObjectSettings}
+                      onSettingsRestored={() => setPendingObjectSettings(null)}
                     />
                   </div>
                 )}
 
+                {/* Regression Outputs - continuous values from trainers in regression mode */}
+                <RegressionOutputs outputs={regressionOutputs} />
+
                 {/* Combination Classifier - Show when 2 or more modules are active */}
                 {(() => {
                   const activeCount = [
@@ -313,11 +524,8 @@ function App() {
                   return activeCount >= 2 ? (
                     <div className="w-full flex-shrink-0">
                       <CombinationClassifier
-                        faceResult={faceClassification}
-                        handResult={handClassification}
-                        bodyResult={bodyClassification}
-                        imageResult={imageClassification}
-                        objectResult={objectClassification}
+                        key={combinationKey}
+                        results={classifications}
                         activeModes={{
                           face: activeModes.face,
                           hand: activeModes.hand,
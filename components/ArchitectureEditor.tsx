@@ -0,0 +1,133 @@
+import React from 'react';
+import { LayerSpec, Activation, ACTIVATIONS, DEFAULT_ARCHITECTURE, countParameters } from '../utils/networkArchitecture';
+import { TrainerTask } from '../utils/regression';
+
+interface ArchitectureEditorProps {
+  layers: LayerSpec[];
+  onChange: (layers: LayerSpec[]) => void;
+  inputSize: number;
+  outputSize: number;
+  task: TrainerTask;
+  disabled?: boolean;
+}
+
+const LAYER_NAMES: Record<LayerSpec['type'], string> = {
+  dense: 'Dense',
+  dropout: 'Dropout',
+  batchNormalization: 'BatchNorm'
+};
+
+const NEW_LAYERS: LayerSpec[] = [
+  { type: 'dense', units: 16, activation: 'relu' },
+  { type: 'dropout', rate: 0.2 },
+  { type: 'batchNormalization' }
+];
+
+const ArchitectureEditor: React.FC<ArchitectureEditorProps> = ({ layers, onChange, inputSize, outputSize, task, disabled }) => {
+  const updateLayer = (index: number, layer: LayerSpec) => {
+    onChange(layers.map((l, i) => i === index ? layer : l));
+  };
+
+  const moveLayer = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  // ml5 needs at least one hidden layer before the output layer, so the last one can't be removed
+  const removeLayer = (index: number) => {
+    onChange(layers.filter((_, i) => i !== index));
+  };
+
+  const parameterCount = countParameters(layers, inputSize, outputSize);
+  const inputClass = "bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 text-white text-xs";
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500">Input ({inputSize})</div>
+
+      {layers.map((layer, index) => (
+        <div key={index} className="bg-gray-800 rounded p-1.5 border border-gray-700 flex items-center gap-1.5 text-xs">
+          <span className="text-gray-300 font-medium w-16">{LAYER_NAMES[layer.type]}</span>
+
+          {layer.type === 'dense' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={layer.units}
+                onChange={(e) => updateLayer(index, { ...layer, units: Math.max(1, Math.floor(Number(e.target.value))) })}
+                className={`${inputClass} w-14`}
+                title="Units"
+                disabled={disabled}
+              />
+              <select
+                value={layer.activation}
+                onChange={(e) => updateLayer(index, { ...layer, activation: e.target.value as Activation })}
+                className={`${inputClass} flex-1`}
+                disabled={disabled}
+              >
+                {ACTIVATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </>
+          )}
+
+          {layer.type === 'dropout' && (
+            <>
+              <input
+                type="number"
+                min={0}
+                max={0.9}
+                step={0.05}
+                value={layer.rate}
+                onChange={(e) => updateLayer(index, { ...layer, rate: Math.min(0.9, Math.max(0, Number(e.target.value))) })}
+                className={`${inputClass} w-14`}
+                title="Drop rate"
+                disabled={disabled}
+              />
+              <span className="flex-1 text-gray-500">rate</span>
+            </>
+          )}
+
+          {layer.type === 'batchNormalization' && <span className="flex-1"></span>}
+
+          <button onClick={() => moveLayer(index, -1)} disabled={disabled || index === 0} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move up">↑</button>
+          <button onClick={() => moveLayer(index, 1)} disabled={disabled || index === layers.length - 1} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move down">↓</button>
+          <button onClick={() => removeLayer(index)} disabled={disabled || layers.length === 1} className="px-1 text-red-400 hover:text-red-300 disabled:opacity-30" title="Remove">✕</button>
+        </div>
+      ))}
+
+      <div className="text-xs text-gray-500">
+        Output ({outputSize || '?'} {task === 'regression' ? 'targets, sigmoid' : 'classes, softmax'})
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {NEW_LAYERS.map(layer => (
+          <button
+            key={layer.type}
+            onClick={() => onChange([...layers, { ...layer }])}
+            disabled={disabled}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded text-xs"
+          >
+            + {LAYER_NAMES[layer.type]}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange(DEFAULT_ARCHITECTURE)}
+          disabled={disabled}
+          className="px-2 py-1 text-gray-400 hover:text-white disabled:opacity-50 text-xs ml-auto"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-400">
+        Parameters: <span className="text-indigo-400 font-semibold">{parameterCount.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ArchitectureEditor;
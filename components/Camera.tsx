@@ -1,7 +1,11 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { FaceMeshPrediction, HandPosePrediction, BodyPosePrediction, ObjectDetectionResult } from '../types';
+import { FaceMeshPrediction, HandPosePrediction, BodyPosePrediction, ObjectDetectionResult, TrackedPerson, PersonClassification, InputSource, PlaybackState, CameraSettings, CameraStreamInfo } from '../types';
 import '../types'; // Import to register global Window types
+import { createImageSequencePlayer, ImageSequencePlayer } from '../utils/inputSources';
+import { createSessionPlayer, SessionPlayer } from '../utils/landmarkSession';
+import { DEFAULT_CAMERA_SETTINGS, buildVideoConstraints } from '../utils/cameraSettings';
+import PlaybackControls from './PlaybackControls';
 
 interface CameraProps {
   isActive: boolean;
@@ -13,21 +17,33 @@ interface CameraProps {
     object: boolean;
   };
   bodyPoseModel?: 'MoveNet' | 'BlazePose';
+  inputSource?: InputSource;
+  cameraSettings?: CameraSettings;
+  onCameraInfo?: (info: CameraStreamInfo | null) => void;
   onCapture: (imageData: string) => void;
   onHandResults?: (results: HandPosePrediction[]) => void;
   onFaceResults?: (results: FaceMeshPrediction[]) => void;
   onBodyResults?: (results: BodyPosePrediction[]) => void;
   objectDetectionsRef?: React.MutableRefObject<ObjectDetectionResult[]>;
+  // Multi-person body tracking overlay (ids from utils/personTracker.ts)
+  trackedPeopleRef?: React.MutableRefObject<TrackedPerson[]>;
+  personResultsRef?: React.MutableRefObject<PersonClassification[]>;
   videoRef?: React.RefObject<HTMLVideoElement>;
 }
 
-const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel = 'MoveNet', onCapture, onHandResults, onFaceResults, onBodyResults, objectDetectionsRef, videoRef: externalVideoRef }) => {
+const DEFAULT_INPUT_SOURCE = { kind: 'camera' } as InputSource;
+
+const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel = 'MoveNet', inputSource = DEFAULT_INPUT_SOURCE, cameraSettings = DEFAULT_CAMERA_SETTINGS, onCameraInfo, onCapture, onHandResults, onFaceResults, onBodyResults, objectDetectionsRef, trackedPeopleRef, personResultsRef, videoRef: externalVideoRef }) => {
   const internalVideoRef = useRef<HTMLVideoElement>(null);
   const videoRef = externalVideoRef || internalVideoRef;
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  // Increments every time a new media source is attached (0 = nothing attached)
+  const [mediaSourceId, setMediaSourceId] = useState(0);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
   const [modelsLoaded, setModelsLoaded] = useState({ face: false, hand: false, body: false });
   const [error, setError] = useState<string | null>(null);
+  // Whether the live track faces the user - also reported through onCameraInfo for the session recorder
+  const [isLiveMirrored, setIsLiveMirrored] = useState(false);
   const [modelVersion, setModelVersion] = useState(0); // Trigger detection restart on model change
   
   // Refs for ml5 instances
@@ -44,6 +60,16 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
   });
   const activeModesRef = useRef(activeModes); // Keep track of active modes in ref for render loop
   const bodyPoseModelRef = useRef(bodyPoseModel);
+  const filePlayerRef = useRef<ImageSequencePlayer | SessionPlayer | null>(null);
+  // Replayed sessions have no video; the overlay uses the recorded frame size instead
+  const sessionFrameSizeRef = useRef<{ width: number; height: number } | null>(null);
+  const isSession = inputSource.kind === 'session';
+
+  // Only the front-facing live camera is mirrored; rear cameras and recorded footage are shown as-is
+  const isMirrored = inputSource.kind === 'camera'
+    ? isLiveMirrored
+    : inputSource.kind === 'session' && inputSource.session.mirrored;
+  const isMirroredRef = useRef(isMirrored);
 
   // Refs for data to decouple detection rate from render rate
   const latestFacePredictionsRef = useRef<FaceMeshPrediction[]>([]);
@@ -58,6 +84,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
   const onHandResultsRef = useRef(onHandResults);
   const onFaceResultsRef = useRef(onFaceResults);
   const onBodyResultsRef = useRef(onBodyResults);
+  const onCameraInfoRef = useRef(onCameraInfo);
 
   // Update refs when props change
   useEffect(() => {
@@ -72,6 +99,10 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
     onBodyResultsRef.current = onBodyResults;
   }, [onBodyResults]);
 
+  useEffect(() => {
+    onCameraInfoRef.current = onCameraInfo;
+  }, [onCameraInfo]);
+
   useEffect(() => {
     activeModesRef.current = activeModes;
   }, [activeModes]);
@@ -80,6 +111,10 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
     bodyPoseModelRef.current = bodyPoseModel;
   }, [bodyPoseModel]);
 
+  useEffect(() => {
+    isMirroredRef.current = isMirrored;
+  }, [isMirrored]);
+
   // Sync modelsLoaded state to ref for use in detection loop
   useEffect(() => {
     modelsLoadedRef.current = modelsLoaded;
@@ -184,54 +219,247 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
     };
   }, []);
 
-  // Start/Stop Camera Stream
+  // Shared result delivery for live detection and replayed sessions
+  const deliverFaceResults = useCallback((results: any[]) => {
+    if (!activeModesRef.current.face) return; // Safety check
+
+    const faceResults = results as FaceMeshPrediction[];
+    latestFacePredictionsRef.current = faceResults;
+    if (onFaceResultsRef.current) {
+        onFaceResultsRef.current(faceResults);
+    }
+  }, []);
+
+  const deliverHandResults = useCallback((results: any[]) => {
+    if (!activeModesRef.current.hand) return; // Safety check
+
+    const handResults = results as HandPosePrediction[];
+    if (handResults && handResults.length > 0) {
+        latestHandPredictionsRef.current = handResults;
+        lastHandDetectTimeRef.current = performance.now();
+    }
+    if (onHandResultsRef.current) {
+        onHandResultsRef.current(handResults);
+    }
+  }, []);
+
+  const deliverBodyResults = useCallback((results: any[]) => {
+    if (!activeModesRef.current.body) return; // Safety check
+
+    const bodyResults = results as BodyPosePrediction[];
+    if (bodyResults && bodyResults.length > 0) {
+        latestBodyPredictionsRef.current = bodyResults;
+        lastBodyDetectTimeRef.current = performance.now();
+    }
+    if (onBodyResultsRef.current) {
+        onBodyResultsRef.current(bodyResults);
+    }
+  }, []);
+
+  // Camera changes hot-swap only the stream; loaded ml5 models live in refs and are kept.
+  // Non-camera sources ignore the key so tweaking camera settings never reloads a video.
+  const cameraSettingsKey = inputSource.kind === 'camera' ? JSON.stringify(cameraSettings) : '';
+
+  // Attach / Detach the selected input source
   useEffect(() => {
-    let currentStream: MediaStream | null = null;
     let isMounted = true;
+    let currentStream: MediaStream | null = null;
+    let objectUrl: string | null = null;
+    let player: ImageSequencePlayer | SessionPlayer | null = null;
+    let detachVideoListeners: (() => void) | null = null;
+
+    const attach = (id: number) => {
+      if (isMounted) {
+        setMediaSourceId(id);
+        setError(null);
+      }
+    };
+
+    const startSource = async () => {
+      const video = videoRef.current;
+      if (!isActive || !video) return;
+
+      const id = Date.now();
 
-    const startCamera = async () => {
       try {
-        if (isActive && !stream) {
-          const mediaStream = await navigator.mediaDevices.getUserMedia({
-            video: { 
-              width: { ideal: 1280 },
-              height: { ideal: 720 },
-              facingMode: "user"
+        if (inputSource.kind === 'camera') {
+          let mediaStream: MediaStream;
+          try {
+            mediaStream = await navigator.mediaDevices.getUserMedia({
+              video: buildVideoConstraints(cameraSettings)
+            });
+          } catch (err: any) {
+            // Remembered device may be unplugged - fall back to facing mode
+            if (!cameraSettings.deviceId || (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError')) {
+              throw err;
             }
-          });
+            console.warn("Selected camera unavailable, falling back to default device:", err);
+            mediaStream = await navigator.mediaDevices.getUserMedia({
+              video: buildVideoConstraints(cameraSettings, true)
+            });
+          }
           if (!isMounted) {
             mediaStream.getTracks().forEach(track => track.stop());
             return;
           }
           currentStream = mediaStream;
-          setStream(mediaStream);
-          if (videoRef.current) {
-            videoRef.current.srcObject = mediaStream;
-            videoRef.current.play().catch(e => console.error("Error playing video:", e));
-          }
-          setError(null);
-        } else if (!isActive && stream) {
-          stream.getTracks().forEach(track => track.stop());
-          setStream(null);
-          if (videoRef.current) {
-            videoRef.current.srcObject = null;
+          video.loop = false;
+          video.srcObject = mediaStream;
+          video.play().catch(e => console.error("Error playing video:", e));
+          setPlayback(null);
+          attach(id);
+
+          const track = mediaStream.getVideoTracks()[0];
+          const trackSettings = track?.getSettings() ?? {};
+          // A camera picked by device may face either way - trust the track over the facing mode setting
+          // (most webcams don't report one)
+          const mirrored = (trackSettings.facingMode || cameraSettings.facingMode) === 'user';
+          setIsLiveMirrored(mirrored);
+          onCameraInfoRef.current?.({
+            label: track?.label ?? '',
+            width: trackSettings.width ?? 0,
+            height: trackSettings.height ?? 0,
+            frameRate: Math.round(trackSettings.frameRate ?? 0),
+            mirrored
+          });
+        } else if (inputSource.kind === 'video') {
+          objectUrl = URL.createObjectURL(inputSource.file);
+          video.srcObject = null;
+          video.loop = inputSource.loop;
+          video.src = objectUrl;
+
+          const syncPlayback = () => {
+            setPlayback({
+              isPlaying: !video.paused && !video.ended,
+              position: video.currentTime,
+              duration: Number.isFinite(video.duration) ? video.duration : 0,
+              loop: video.loop
+            });
+          };
+          const onVideoError = () => {
+            if (isMounted) setError("Unable to play the selected video file.");
+          };
+          const events = ['timeupdate', 'play', 'pause', 'ended', 'durationchange'];
+          events.forEach(name => video.addEventListener(name, syncPlayback));
+          video.addEventListener('error', onVideoError);
+          detachVideoListeners = () => {
+            events.forEach(name => video.removeEventListener(name, syncPlayback));
+            video.removeEventListener('error', onVideoError);
+          };
+          syncPlayback();
+          attach(id);
+        } else if (inputSource.kind === 'session') {
+          // Replay feeds recorded predictions through the same callbacks; no ml5 model runs
+          const { session } = inputSource;
+          video.srcObject = null;
+          sessionFrameSizeRef.current = { width: session.width, height: session.height };
+          player = createSessionPlayer(session, {
+            loop: inputSource.loop,
+            onFrame: (frame) => {
+              if (frame.stream === 'face') deliverFaceResults(frame.results);
+              else if (frame.stream === 'hand') deliverHandResults(frame.results);
+              else deliverBodyResults(frame.results);
+            },
+            onChange: (state) => {
+              if (isMounted) setPlayback(state);
+            }
+          });
+          filePlayerRef.current = player;
+          setPlayback(player.getState());
+          attach(id);
+        } else {
+          const imagePlayer = await createImageSequencePlayer(inputSource.files, {
+            interval: inputSource.interval,
+            loop: inputSource.loop,
+            onChange: (state) => {
+              if (isMounted) setPlayback(state);
+            }
+          });
+          if (!isMounted) {
+            imagePlayer.dispose();
+            return;
           }
+          player = imagePlayer;
+          filePlayerRef.current = player;
+          video.loop = false;
+          video.srcObject = imagePlayer.stream;
+          video.play().catch(e => console.error("Error playing video:", e));
+          setPlayback(player.getState());
+          attach(id);
         }
       } catch (err) {
-        console.error("Error accessing camera:", err);
-        if (isMounted) setError("Unable to access camera. Please allow permissions.");
+        console.error("Error opening input source:", err);
+        if (isMounted) {
+          setError(inputSource.kind === 'camera'
+            ? "Unable to access camera. Please allow permissions."
+            : "Unable to open the selected input source.");
+        }
       }
     };
 
-    startCamera();
+    startSource();
 
     return () => {
       isMounted = false;
+      setMediaSourceId(0);
+      setPlayback(null);
+      onCameraInfoRef.current?.(null);
+      detachVideoListeners?.();
       if (currentStream) {
         currentStream.getTracks().forEach(track => track.stop());
       }
+      if (player) {
+        player.dispose();
+        if (filePlayerRef.current === player) filePlayerRef.current = null;
+      }
+      sessionFrameSizeRef.current = null;
+      const video = videoRef.current;
+      if (video) {
+        video.pause();
+        video.srcObject = null;
+        video.removeAttribute('src');
+        video.load();
+      }
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
     };
-  }, [isActive]); // Removed 'stream' from deps to avoid cycle
+  }, [isActive, inputSource, cameraSettingsKey, deliverFaceResults, deliverHandResults, deliverBodyResults]);
+
+  // Playback controls for file-based sources
+  const togglePlayback = useCallback(() => {
+    const video = videoRef.current;
+    if (inputSource.kind === 'video' && video) {
+      if (video.paused || video.ended) {
+        video.play().catch(e => console.error("Error playing video:", e));
+      } else {
+        video.pause();
+      }
+    } else if (filePlayerRef.current) {
+      const player = filePlayerRef.current;
+      if (player.getState().isPlaying) player.pause();
+      else player.play();
+    }
+  }, [inputSource]);
+
+  const seekPlayback = useCallback((position: number) => {
+    const video = videoRef.current;
+    if (inputSource.kind === 'video' && video) {
+      video.currentTime = position;
+    } else {
+      filePlayerRef.current?.seek(position);
+    }
+  }, [inputSource]);
+
+  const setPlaybackLoop = useCallback((loop: boolean) => {
+    const video = videoRef.current;
+    if (inputSource.kind === 'video' && video) {
+      video.loop = loop;
+      setPlayback(prev => prev ? { ...prev, loop } : prev);
+    } else {
+      filePlayerRef.current?.setLoop(loop);
+    }
+  }, [inputSource]);
 
   // 1. 環境初始化 - 只執行一次
   useEffect(() => {
@@ -269,8 +497,8 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
   // 2. 模型按需加載 - 監聽 activeModes 變化
   useEffect(() => {
     const loadModels = async () => {
-      // 如果 ml5 還沒準備好，跳過
-      if (!window.ml5) return;
+      // 如果 ml5 還沒準備好，或正在重播錄製的 session（不需要模型），跳過
+      if (!window.ml5 || isSession) return;
 
       try {
         // 只在啟用 Face 模式時加載 FaceMesh
@@ -340,7 +568,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
     };
 
     loadModels();
-  }, [activeModes.face, activeModes.hand, activeModes.body, bodyPoseModel]); // 監聽模式變化
+  }, [activeModes.face, activeModes.hand, activeModes.body, bodyPoseModel, isSession]); // 監聽模式變化
 
   // BodyPose 模型切換已整合到按需加載邏輯中
 
@@ -362,7 +590,13 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
     }
 
     // Ensure canvas matches video size to prevent scaling artifacts
-    if (video.videoWidth > 0 && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)) {
+    const frameSize = sessionFrameSizeRef.current;
+    if (frameSize) {
+      if (canvas.width !== frameSize.width || canvas.height !== frameSize.height) {
+        canvas.width = frameSize.width;
+        canvas.height = frameSize.height;
+      }
+    } else if (video.videoWidth > 0 && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)) {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
     }
@@ -496,6 +730,36 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
                   }
                 });
             });
+
+            // 每個追蹤中的人：外框 + 「P{id} label %」標籤
+            const people = trackedPeopleRef?.current ?? [];
+            const personResults = personResultsRef?.current ?? [];
+            ctx.lineWidth = 1.5;
+            ctx.font = 'bold 14px sans-serif';
+
+            people.forEach(({ id, box }) => {
+              const result = personResults.find(r => r.id === id);
+              const labelText = result?.label
+                ? `P${id}: ${result.label} ${(result.confidence * 100).toFixed(0)}%`
+                : `P${id}`;
+              const color = `hsla(${(id * 67) % 360}, 80%, 55%, 0.9)`;
+
+              ctx.strokeStyle = color;
+              ctx.strokeRect(box.xMin, box.yMin, box.width, box.height);
+
+              // 鏡像時反轉文字，抵消 canvas 的 scale-x-[-1]
+              ctx.save();
+              const textWidth = ctx.measureText(labelText).width;
+              const textY = box.yMin - 8 < 0 ? box.yMin + 12 : box.yMin - 6;
+              const textX = isMirroredRef.current ? -box.xMin - textWidth - 4 : box.xMin - 1;
+              if (isMirroredRef.current) ctx.scale(-1, 1);
+
+              ctx.fillStyle = color;
+              ctx.fillRect(textX, textY - 12, textWidth + 6, 16);
+              ctx.fillStyle = '#fff';
+              ctx.fillText(labelText, textX + 3, textY - 2);
+              ctx.restore();
+            });
             
             ctx.globalAlpha = 1.0; // Reset alpha
         }
@@ -515,24 +779,32 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
           ctx.strokeStyle = 'rgba(99, 102, 241, 0.9)';
           ctx.strokeRect(x, y, width, height);
           
-          // 繪製標籤背景和文字（需要反轉以抵消 canvas 的 scale-x-[-1]）
+          // 繪製標籤背景和文字（鏡像時需要反轉以抵消 canvas 的 scale-x-[-1]）
           ctx.save();
           
-          // 反轉 x 軸以抵消 canvas 的鏡像
-          ctx.scale(-1, 1);
-          
-          // 計算反轉後的座標
-          const flippedX = -x;
           const textWidth = ctx.measureText(labelText).width;
           const textY = y - 8 < 0 ? y + 12 : y - 6;
-          
-          // 繪製背景
-          ctx.fillStyle = 'rgba(99, 102, 241, 0.9)';
-          ctx.fillRect(flippedX - textWidth - 4, textY - 12, textWidth + 6, 16);
-          
-          // 繪製文字
-          ctx.fillStyle = '#fff';
-          ctx.fillText(labelText, flippedX - textWidth - 1, textY - 2);
+
+          if (isMirroredRef.current) {
+            // 反轉 x 軸以抵消 canvas 的鏡像
+            ctx.scale(-1, 1);
+            
+            // 計算反轉後的座標
+            const flippedX = -x;
+            
+            // 繪製背景
+            ctx.fillStyle = 'rgba(99, 102, 241, 0.9)';
+            ctx.fillRect(flippedX - textWidth - 4, textY - 12, textWidth + 6, 16);
+            
+            // 繪製文字
+            ctx.fillStyle = '#fff';
+            ctx.fillText(labelText, flippedX - textWidth - 1, textY - 2);
+          } else {
+            ctx.fillStyle = 'rgba(99, 102, 241, 0.9)';
+            ctx.fillRect(x - 1, textY - 12, textWidth + 6, 16);
+            ctx.fillStyle = '#fff';
+            ctx.fillText(labelText, x + 2, textY - 2);
+          }
           
           ctx.restore();
         });
@@ -619,7 +891,8 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
       
       // Check if any mode is active (excluding classifier which doesn't need detection)
       const hasActiveMode = activeModes.face || activeModes.hand || activeModes.body;
-      if (!hasActiveMode || !isActive || !stream) return;
+      // Replayed sessions deliver recorded predictions instead of running the models
+      if (!hasActiveMode || !isActive || !mediaSourceId || isSession) return;
 
       // 2. Debounce start: Wait 100ms before starting new detection.
       // This prevents rapid switching from crashing the browser and gives DOM time to settle.
@@ -646,15 +919,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
             if (activeModes.face && faceMeshRef.current && modelsLoadedRef.current.face && !isDetectingRef.current.face) {
               isDetectingRef.current.face = true;
               try {
-                faceMeshRef.current.detectStart(video, (results: any[]) => {
-                   if (!activeModesRef.current.face) return; // Safety check
-
-                   const faceResults = results as FaceMeshPrediction[];
-                   latestFacePredictionsRef.current = faceResults;
-                   if (onFaceResultsRef.current) {
-                       onFaceResultsRef.current(faceResults);
-                   }
-                });
+                faceMeshRef.current.detectStart(video, deliverFaceResults);
                 console.log('Face detection started');
               } catch (err) {
                 console.error("Error starting face detection:", err);
@@ -666,18 +931,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
             if (activeModes.hand && handPoseRef.current && modelsLoadedRef.current.hand && !isDetectingRef.current.hand) {
               isDetectingRef.current.hand = true;
               try {
-                handPoseRef.current.detectStart(video, (results: any[]) => {
-                   if (!activeModesRef.current.hand) return; // Safety check
-
-                   const handResults = results as HandPosePrediction[];
-                   if (handResults && handResults.length > 0) {
-                       latestHandPredictionsRef.current = handResults;
-                       lastHandDetectTimeRef.current = performance.now();
-                   }
-                   if (onHandResultsRef.current) {
-                       onHandResultsRef.current(handResults);
-                   }
-                });
+                handPoseRef.current.detectStart(video, deliverHandResults);
                 console.log('Hand detection started');
               } catch (err) {
                 console.error("Error starting hand detection:", err);
@@ -689,18 +943,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
             if (activeModes.body && bodyPoseRef.current && modelsLoadedRef.current.body && !isDetectingRef.current.body) {
               isDetectingRef.current.body = true;
               try {
-                bodyPoseRef.current.detectStart(video, (results: any[]) => {
-                   if (!activeModesRef.current.body) return; // Safety check
-
-                   const bodyResults = results as BodyPosePrediction[];
-                   if (bodyResults && bodyResults.length > 0) {
-                       latestBodyPredictionsRef.current = bodyResults;
-                       lastBodyDetectTimeRef.current = performance.now();
-                   }
-                   if (onBodyResultsRef.current) {
-                       onBodyResultsRef.current(bodyResults);
-                   }
-                });
+                bodyPoseRef.current.detectStart(video, deliverBodyResults);
                 console.log('Body detection started');
               } catch (err) {
                 console.error("Error starting body detection:", err);
@@ -712,7 +955,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
       }, 100); // 100ms debounce delay
     };
 
-    if (isActive && stream) {
+    if (isActive && mediaSourceId) {
       startDetection();
     } else {
       stopDetection();
@@ -722,7 +965,7 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
       stopDetection();
       cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [isActive, activeModes.face, activeModes.hand, activeModes.body, stream, renderLoop, modelVersion, modelsLoaded.face, modelsLoaded.hand, modelsLoaded.body]); // React to individual mode changes and model loading
+  }, [isActive, activeModes.face, activeModes.hand, activeModes.body, mediaSourceId, isSession, renderLoop, modelVersion, modelsLoaded.face, modelsLoaded.hand, modelsLoaded.body]); // React to individual mode changes and model loading
 
   const captureImage = useCallback(() => {
     if (videoRef.current) {
@@ -732,15 +975,17 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
       const ctx = captureCanvas.getContext('2d');
       
       if (ctx) {
-        ctx.translate(captureCanvas.width, 0);
-        ctx.scale(-1, 1);
+        if (isMirrored) {
+          ctx.translate(captureCanvas.width, 0);
+          ctx.scale(-1, 1);
+        }
         ctx.drawImage(videoRef.current, 0, 0, captureCanvas.width, captureCanvas.height);
         
         const dataUrl = captureCanvas.toDataURL('image/jpeg', 0.9);
         onCapture(dataUrl);
       }
     }
-  }, [onCapture]);
+  }, [onCapture, isMirrored]);
 
   if (error) {
     return (
@@ -769,17 +1014,27 @@ const Camera: React.FC<CameraProps> = ({ isActive, activeModes, bodyPoseModel =
             const video = e.target as HTMLVideoElement;
             video.play().catch(console.error);
         }}
-        className={`w-full h-full object-contain transform ${isActive ? 'scale-x-[-1]' : ''}`}
+        className={`w-full h-full object-contain transform ${isActive && isMirrored ? 'scale-x-[-1]' : ''}`}
         style={{ display: isActive ? 'block' : 'none' }}
       />
 
       <canvas
         ref={canvasRef}
-        className="absolute top-0 left-0 w-full h-full pointer-events-none object-contain transform scale-x-[-1]"
+        className={`absolute top-0 left-0 w-full h-full pointer-events-none object-contain transform ${isMirrored ? 'scale-x-[-1]' : ''}`}
         style={{ display: isActive ? 'block' : 'none' }}
       />
 
-      {isActive && (
+      {isActive && playback && inputSource.kind !== 'camera' && (
+        <PlaybackControls
+          playback={playback}
+          unit={inputSource.kind === 'images' ? 'frames' : 'seconds'}
+          onTogglePlay={togglePlayback}
+          onSeek={seekPlayback}
+          onLoopChange={setPlaybackLoop}
+        />
+      )}
+
+      {isActive && !isSession && (
         (activeModes.face && !modelsLoaded.face) ||
         (activeModes.hand && !modelsLoaded.hand) ||
         (activeModes.body && !modelsLoaded.body)
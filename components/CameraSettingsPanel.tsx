@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { CameraSettings, CameraStreamInfo } from '../types';
+import { RESOLUTION_PRESETS, FRAME_RATE_OPTIONS } from '../utils/cameraSettings';
+
+interface CameraSettingsPanelProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  streamInfo: CameraStreamInfo | null;
+}
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, onChange, streamInfo }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Device labels are only exposed after camera permission is granted,
+  // so re-enumerate whenever a stream starts and when devices are plugged in/out
+  useEffect(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    let isMounted = true;
+
+    const refreshDevices = async () => {
+      try {
+        const all = await navigator.mediaDevices.enumerateDevices();
+        if (isMounted) {
+          setDevices(all.filter(d => d.kind === 'videoinput'));
+        }
+      } catch (e) {
+        console.warn("Unable to enumerate camera devices:", e);
+      }
+    };
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      isMounted = false;
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, [streamInfo?.label]);
+
+  const resolutionKey = `${settings.width}x${settings.height}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all ${
+          isOpen
+            ? 'bg-indigo-600 text-white border-indigo-500'
+            : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700 hover:text-white'
+        }`}
+        title="Camera settings"
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-12 left-1/2 -translate-x-1/2 z-40 w-72 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-white">Camera Settings</h4>
+            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Device</label>
+            <select
+              value={settings.deviceId}
+              onChange={(e) => onChange({ ...settings, deviceId: e.target.value })}
+              className="w-full bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Default (by facing mode)</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId || i} value={device.deviceId}>
+                  {device.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Facing</label>
+            <div className="bg-gray-800 rounded-lg p-1 flex items-center border border-gray-700">
+              {([
+                { value: 'user' as const, label: 'Front' },
+                { value: 'environment' as const, label: 'Back' }
+              ]).map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...settings, facingMode: value })}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                    settings.facingMode === value
+                      ? 'bg-indigo-600 text-white shadow-sm'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {settings.deviceId
+                ? 'Front mirrors the preview; the selected device is used as-is.'
+                : 'Picks the front or rear camera on phones and tablets.'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-gray-500">Resolution</label>
+              <select
+                value={resolutionKey}
+                onChange={(e) => {
+                  const preset = RESOLUTION_PRESETS.find(p => `${p.width}x${p.height}` === e.target.value);
+                  if (preset) onChange({ ...settings, width: preset.width, height: preset.height });
+                }}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              >
+                {RESOLUTION_PRESETS.map(p => (
+                  <option key={p.label} value={`${p.width}x${p.height}`}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Frame rate</label>
+              <select
+                value={settings.frameRate}
+                onChange={(e) => onChange({ ...settings, frameRate: Number(e.target.value) })}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              >
+                {FRAME_RATE_OPTIONS.map(fps => (
+                  <option key={fps} value={fps}>{fps} fps</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {streamInfo && (
+            <div className="bg-gray-800/50 border border-gray-600/50 rounded-lg p-2">
+              <p className="text-xs text-gray-400 truncate" title={streamInfo.label}>
+                Active: {streamInfo.label || 'Camera'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {streamInfo.width}×{streamInfo.height} @ {streamInfo.frameRate} fps
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraSettingsPanel;
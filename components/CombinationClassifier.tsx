@@ -1,5 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
+import { ClassificationResult, ClassificationSource } from '../types';
+
+export const COMBINATION_RULES_STORAGE_KEY = 'visionlab-combination-rules';
 
 interface CombinationRule {
   id: string;
@@ -10,14 +13,11 @@ interface CombinationRule {
   objectLabel: string;
   resultLabel: string;
   enabled: boolean;
+  minConfidence?: number; // 0..1 - every condition's label needs at least this confidence (missing in older rules)
 }
 
 interface CombinationClassifierProps {
-  faceResult: string;
-  handResult: string;
-  bodyResult: string;
-  imageResult: string;
-  objectResult: string;
+  results: Partial<Record<ClassificationSource, ClassificationResult>>;
   activeModes: {
     face: boolean;
     hand: boolean;
@@ -28,19 +28,25 @@ interface CombinationClassifierProps {
 }
 
 const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
-  faceResult,
-  handResult,
-  bodyResult,
-  imageResult,
-  objectResult,
+  results,
   activeModes
 }) => {
-  const STORAGE_KEY = 'visionlab-combination-rules';
-  
+  const faceResult = results.face?.label ?? '';
+  const handResult = results.hand?.label ?? '';
+  const bodyResult = results.body?.label ?? '';
+  const imageResult = results.image?.label ?? '';
+  const objectResult = results.object?.label ?? '';
+
+  // 條件的 label 要對，信心度也要夠
+  const satisfies = (source: ClassificationSource, label: string, minConfidence = 0) => {
+    const result = results[source];
+    return !!result && result.label.toLowerCase() === label.toLowerCase() && result.confidence >= minConfidence;
+  };
+
   // Load rules from localStorage on mount
   const [rules, setRules] = useState<CombinationRule[]>(() => {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY);
+      const saved = localStorage.getItem(COMBINATION_RULES_STORAGE_KEY);
       if (saved) {
         const parsed = JSON.parse(saved);
         return Array.isArray(parsed) ? parsed : [];
@@ -57,7 +63,8 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
     bodyLabel: '',
     imageLabel: '',
     objectLabel: '',
-    resultLabel: ''
+    resultLabel: '',
+    minConfidence: 0
   });
   const [matchedRule, setMatchedRule] = useState<CombinationRule | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
@@ -66,7 +73,7 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
   // Save rules to localStorage whenever they change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+      localStorage.setItem(COMBINATION_RULES_STORAGE_KEY, JSON.stringify(rules));
     } catch (error) {
       console.error('Failed to save rules to localStorage:', error);
     }
@@ -82,35 +89,35 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
 
         // Check face condition (if face mode is active and rule has face condition)
         if (rule.faceLabel && activeModes.face) {
-          if (faceResult.toLowerCase() !== rule.faceLabel.toLowerCase()) {
+          if (!satisfies('face', rule.faceLabel, rule.minConfidence)) {
             matches = false;
           }
         }
 
         // Check hand condition (if hand mode is active and rule has hand condition)
         if (rule.handLabel && activeModes.hand) {
-          if (handResult.toLowerCase() !== rule.handLabel.toLowerCase()) {
+          if (!satisfies('hand', rule.handLabel, rule.minConfidence)) {
             matches = false;
           }
         }
 
         // Check body condition (if body mode is active and rule has body condition)
         if (rule.bodyLabel && activeModes.body) {
-          if (bodyResult.toLowerCase() !== rule.bodyLabel.toLowerCase()) {
+          if (!satisfies('body', rule.bodyLabel, rule.minConfidence)) {
             matches = false;
           }
         }
 
         // Check image condition (if classifier mode is active and rule has image condition)
         if (rule.imageLabel && activeModes.classifier) {
-          if (imageResult.toLowerCase() !== rule.imageLabel.toLowerCase()) {
+          if (!satisfies('image', rule.imageLabel, rule.minConfidence)) {
             matches = false;
           }
         }
 
         // Check object condition (if object mode is active and rule has object condition)
         if (rule.objectLabel && activeModes.object) {
-          if (objectResult.toLowerCase() !== rule.objectLabel.toLowerCase()) {
+          if (!satisfies('object', rule.objectLabel, rule.minConfidence)) {
             matches = false;
           }
         }
@@ -132,7 +139,7 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
     };
 
     checkRules();
-  }, [faceResult, handResult, bodyResult, imageResult, objectResult, rules, activeModes]);
+  }, [results, rules, activeModes]);
 
   const addRule = () => {
     if (!newRule.resultLabel) {
@@ -153,11 +160,12 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
       imageLabel: newRule.imageLabel,
       objectLabel: newRule.objectLabel,
       resultLabel: newRule.resultLabel,
-      enabled: true
+      enabled: true,
+      minConfidence: newRule.minConfidence
     };
 
     setRules([...rules, rule]);
-    setNewRule({ faceLabel: '', handLabel: '', bodyLabel: '', imageLabel: '', objectLabel: '', resultLabel: '' });
+    setNewRule({ faceLabel: '', handLabel: '', bodyLabel: '', imageLabel: '', objectLabel: '', resultLabel: '', minConfidence: 0 });
     setShowAddForm(false);
   };
 
@@ -294,30 +302,45 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
             <div className={`font-medium truncate ${activeModes.face ? 'text-cyan-300' : 'text-gray-600'}`}>
               {activeModes.face ? (faceResult || '-') : '未啟用'}
             </div>
+            {activeModes.face && faceResult && (
+              <div className="text-gray-500">{((results.face?.confidence ?? 0) * 100).toFixed(0)}%</div>
+            )}
           </div>
           <div className={`p-2 rounded ${activeModes.hand ? 'bg-orange-900/20 border border-orange-700/50' : 'bg-gray-800/50 border border-gray-700'}`}>
             <div className="text-gray-400 mb-1">Hand</div>
             <div className={`font-medium truncate ${activeModes.hand ? 'text-orange-300' : 'text-gray-600'}`}>
               {activeModes.hand ? (handResult || '-') : '未啟用'}
             </div>
+            {activeModes.hand && handResult && (
+              <div className="text-gray-500">{((results.hand?.confidence ?? 0) * 100).toFixed(0)}%</div>
+            )}
           </div>
           <div className={`p-2 rounded ${activeModes.body ? 'bg-green-900/20 border border-green-700/50' : 'bg-gray-800/50 border border-gray-700'}`}>
             <div className="text-gray-400 mb-1">Body</div>
             <div className={`font-medium truncate ${activeModes.body ? 'text-green-300' : 'text-gray-600'}`}>
               {activeModes.body ? (bodyResult || '-') : '未啟用'}
             </div>
+            {activeModes.body && bodyResult && (
+              <div className="text-gray-500">{((results.body?.confidence ?? 0) * 100).toFixed(0)}%</div>
+            )}
           </div>
           <div className={`p-2 rounded ${activeModes.classifier ? 'bg-purple-900/20 border border-purple-700/50' : 'bg-gray-800/50 border border-gray-700'}`}>
             <div className="text-gray-400 mb-1">Image</div>
             <div className={`font-medium truncate ${activeModes.classifier ? 'text-purple-300' : 'text-gray-600'}`}>
               {activeModes.classifier ? (imageResult || '-') : '未啟用'}
             </div>
+            {activeModes.classifier && imageResult && (
+              <div className="text-gray-500">{((results.image?.confidence ?? 0) * 100).toFixed(0)}%</div>
+            )}
           </div>
           <div className={`p-2 rounded ${activeModes.object ? 'bg-indigo-900/20 border border-indigo-700/50' : 'bg-gray-800/50 border border-gray-700'}`}>
             <div className="text-gray-400 mb-1">Object</div>
             <div className={`font-medium truncate ${activeModes.object ? 'text-indigo-300' : 'text-gray-600'}`}>
               {activeModes.object ? (objectResult || '-') : '未啟用'}
             </div>
+            {activeModes.object && objectResult && (
+              <div className="text-gray-500">{((results.object?.confidence ?? 0) * 100).toFixed(0)}%</div>
+            )}
           </div>
         </div>
       </div>
@@ -415,6 +438,19 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
               />
             </div>
 
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">📊 最低信心度 % (可選)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round((editingRule.minConfidence ?? 0) * 100)}
+                onChange={(e) => setEditingRule({ ...editingRule, minConfidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
             <div>
               <label className="text-xs text-gray-400 block mb-1">🎯 最終類別 (必填)</label>
               <input
@@ -513,6 +549,19 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
               />
             </div>
 
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">📊 最低信心度 % (可選)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(newRule.minConfidence * 100)}
+                onChange={(e) => setNewRule({ ...newRule, minConfidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+
             <div>
               <label className="text-xs text-gray-400 block mb-1">🎯 最終類別 (必填)</label>
               <input
@@ -533,7 +582,7 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
               </button>
               <button
                 onClick={() => {
-                  setNewRule({ faceLabel: '', handLabel: '', bodyLabel: '', imageLabel: '', objectLabel: '', resultLabel: '' });
+                  setNewRule({ faceLabel: '', handLabel: '', bodyLabel: '', imageLabel: '', objectLabel: '', resultLabel: '', minConfidence: 0 });
                   setShowAddForm(false);
                 }}
                 className="flex-1 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded font-medium transition-colors text-sm"
@@ -641,6 +690,11 @@ const CombinationClassifier: React.FC<CombinationClassifierProps> = ({
                         📦 {rule.objectLabel}
                       </span>
                     )}
+                    {!!rule.minConfidence && (
+                      <span className="bg-gray-700/50 text-gray-300 px-2 py-1 rounded">
+                        ≥ {Math.round(rule.minConfidence * 100)}%
+                      </span>
+                    )}
                   </div>
                 </div>
               ))}
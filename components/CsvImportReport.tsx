@@ -0,0 +1,61 @@
+import React from 'react';
+import { CsvImportReport as Report } from '../utils/datasetCsv';
+
+interface CsvImportReportProps {
+  report: Report;
+  onDismiss: () => void;
+}
+
+const MAX_LISTED_ROWS = 50;
+
+const CsvImportReport: React.FC<CsvImportReportProps> = ({ report, onDismiss }) => {
+  const { fileName, metadata, accepted, rejected, labels, merge } = report;
+  const statusColor = accepted === 0 ? 'text-red-400' : rejected.length > 0 ? 'text-amber-400' : 'text-green-400';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 border border-gray-700 space-y-2 text-xs">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-semibold text-gray-400 uppercase tracking-wider">CSV Import</span>
+        <span className="text-gray-500 truncate" title={fileName}>{fileName}</span>
+      </div>
+
+      <div className={`font-semibold ${statusColor}`}>
+        {accepted === 0
+          ? 'Nothing imported - the current dataset was kept'
+          : `Imported ${accepted} sample(s) from ${labels.length} class(es)`}
+        {rejected.length > 0 && `, rejected ${rejected.length} row(s)`}
+      </div>
+
+      {merge && (
+        <div className="text-gray-400">
+          {merge.mode === 'append' ? 'Appended' : 'Replaced dataset with'} {merge.added} sample(s)
+          {merge.duplicates > 0 && ` · ${merge.duplicates} duplicate(s) ${merge.skipDuplicates ? 'skipped' : 'kept'}`}
+          {merge.skipped > 0 && ` · ${merge.skipped} from skipped classes`}
+        </div>
+      )}
+
+      <div className="text-gray-500">
+        {metadata
+          ? `${metadata.extractor ?? 'unknown extractor'} · ${metadata.dimensions ?? '?'} features${metadata.appVersion ? ` · app v${metadata.appVersion}` : ''}`
+          : 'Legacy CSV without metadata header - checked by column count only'}
+      </div>
+
+      {rejected.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto bg-gray-900 rounded p-2 space-y-0.5 font-mono text-[10px] text-gray-400">
+          {rejected.slice(0, MAX_LISTED_ROWS).map(({ line, reason }) => (
+            <li key={line}><span className="text-red-400">Line {line}:</span> {reason}</li>
+          ))}
+          {rejected.length > MAX_LISTED_ROWS && (
+            <li className="text-gray-500">...and {rejected.length - MAX_LISTED_ROWS} more</li>
+          )}
+        </ul>
+      )}
+
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white">
+        Dismiss
+      </button>
+    </div>
+  );
+};
+
+export default CsvImportReport;
@@ -0,0 +1,121 @@
+import React, { useId, useMemo, useState } from 'react';
+import { PendingCsvImport, TrainingSample } from '../hooks/useTrainer';
+import { LabelMapping, MergeMode, MergeOptions, identityMapping, mergeSamples } from '../utils/datasetMerge';
+
+interface CsvMergeDialogProps {
+  pending: PendingCsvImport;
+  existingSamples: TrainingSample[];
+  existingLabels: string[];
+  onApply: (options: MergeOptions) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 已有資料時匯入 CSV：選擇附加或取代、把匯入的 label 對應到既有 class、略過重複樣本
+ */
+const CsvMergeDialog: React.FC<CsvMergeDialogProps> = ({ pending, existingSamples, existingLabels, onApply, onCancel }) => {
+  const { samples, report } = pending;
+  const [mode, setMode] = useState<MergeMode>('append');
+  const [labelMap, setLabelMap] = useState<LabelMapping>(() => identityMapping(report.labels));
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const incomingCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    samples.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+    return counts;
+  }, [samples]);
+
+  // Dry run with the current choices for the live summary
+  const preview = useMemo(
+    () => mergeSamples(existingSamples, samples, { mode, labelMap, skipDuplicates }),
+    [existingSamples, samples, mode, labelMap, skipDuplicates]
+  );
+
+  const listId = useId();
+  const inputClass = "bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 text-white text-xs";
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 border border-indigo-500/50 space-y-3 text-xs">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-semibold text-gray-400 uppercase tracking-wider">Import {report.accepted} samples</span>
+        <span className="text-gray-500 truncate" title={report.fileName}>{report.fileName}</span>
+      </div>
+
+      <div className="flex gap-3 text-gray-300">
+        <label className="flex items-center gap-1">
+          <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+          Append to current {existingSamples.length} samples
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+          Replace
+        </label>
+      </div>
+
+      {/* Label Mapping - type a new name to rename, pick an existing class to merge */}
+      <div className="space-y-1">
+        <div className="text-gray-500">Incoming class → class in this trainer</div>
+        <datalist id={listId}>
+          {existingLabels.map(label => <option key={label} value={label} />)}
+        </datalist>
+        {report.labels.map(label => {
+          const target = labelMap[label];
+          const isSkipped = target === null;
+          const isExisting = mode === 'append' && existingLabels.includes(target?.trim() ?? '');
+          return (
+            <div key={label} className="flex items-center gap-1.5">
+              <span className="w-24 truncate text-gray-300" title={label}>{label}</span>
+              <span className="text-gray-500 w-8 text-right">{incomingCounts[label]}</span>
+              <span className="text-gray-500">→</span>
+              <input
+                list={listId}
+                value={target ?? ''}
+                onChange={(e) => setLabelMap({ ...labelMap, [label]: e.target.value })}
+                disabled={isSkipped}
+                className={`${inputClass} flex-1 min-w-0 disabled:opacity-40`}
+              />
+              <span className={`w-12 ${isExisting ? 'text-blue-400' : 'text-green-400'}`}>
+                {!target?.trim() ? '' : isExisting ? 'merge' : 'new'}
+              </span>
+              <label className="flex items-center gap-1 text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={isSkipped}
+                  onChange={(e) => setLabelMap({ ...labelMap, [label]: e.target.checked ? null : label })}
+                />
+                Skip
+              </label>
+            </div>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-400">
+        <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+        Skip duplicate samples ({preview.duplicates} found)
+      </label>
+
+      <div className="text-gray-400">
+        Result: {preview.samples.length} samples ({preview.added} added)
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onApply({ mode, labelMap, skipDuplicates })}
+          disabled={preview.added === 0 && mode === 'append'}
+          className="flex-1 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded font-medium"
+        >
+          Import
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvMergeDialog;
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TrainerState, TrainingSample } from '../hooks/useTrainer';
+import { FeatureExtractor, previewPredictions } from '../utils/featureExtractors';
+
+interface DatasetBrowserProps {
+  trainer: TrainerState;
+}
+
+const PAGE_SIZE = 60;
+const THUMB_SIZE = 48;
+const MAX_POINT_CIRCLES = 40; // face meshes (468 points) are drawn as a single path
+
+/**
+ * 單一樣本縮圖：能還原骨架就畫骨架，否則畫特徵長條圖
+ */
+const SampleThumbnail: React.FC<{ extractor: FeatureExtractor; sample: TrainingSample }> = React.memo(({ extractor, sample }) => {
+  const { inputs, raw } = sample;
+  // Stored keypoints show the actual pose (also for face samples); otherwise rebuild from the features
+  const preview = raw ? previewPredictions(extractor.modality, raw) : extractor.preview?.(inputs);
+
+  if (preview && preview.points.length > 0) {
+    const xs = preview.points.map(p => p.x);
+    const ys = preview.points.map(p => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+    const pad = 4;
+    const scale = (THUMB_SIZE - pad * 2) / span;
+    const offsetX = pad + ((THUMB_SIZE - pad * 2) - (Math.max(...xs) - minX) * scale) / 2;
+    const offsetY = pad + ((THUMB_SIZE - pad * 2) - (Math.max(...ys) - minY) * scale) / 2;
+    const project = (p: { x: number; y: number }) => ({
+      x: offsetX + (p.x - minX) * scale,
+      y: offsetY + (p.y - minY) * scale
+    });
+    const points = preview.points.map(project);
+
+    return (
+      <svg width={THUMB_SIZE} height={THUMB_SIZE} className="block">
+        {preview.connections.map(([a, b]) => points[a] && points[b] && (
+          <line key={`${a}-${b}`} x1={points[a].x} y1={points[a].y} x2={points[b].x} y2={points[b].y} stroke="#818cf8" strokeWidth={1.5} />
+        ))}
+        {points.length > MAX_POINT_CIRCLES
+          ? <path d={points.map(p => `M${p.x.toFixed(1)} ${p.y.toFixed(1)}h0.8`).join('')} stroke="#fff" strokeWidth={0.8} />
+          : points.map((p, i) => (
+            <circle key={i} cx={p.x} cy={p.y} r={1.2} fill="#fff" />
+          ))}
+      </svg>
+    );
+  }
+
+  // Fallback: feature bars
+  const maxAbs = Math.max(...inputs.map(v => Math.abs(v))) || 1;
+  const barWidth = THUMB_SIZE / Math.max(1, inputs.length);
+  const mid = THUMB_SIZE / 2;
+
+  return (
+    <svg width={THUMB_SIZE} height={THUMB_SIZE} className="block">
+      <line x1={0} y1={mid} x2={THUMB_SIZE} y2={mid} stroke="#374151" strokeWidth={0.5} />
+      {inputs.map((v, i) => {
+        const h = (Math.abs(v) / maxAbs) * (mid - 2);
+        return (
+          <rect key={i} x={i * barWidth} y={v >= 0 ? mid - h : mid} width={Math.max(0.5, barWidth - 0.5)} height={h} fill="#818cf8" />
+        );
+      })}
+    </svg>
+  );
+});
+
+const DatasetBrowser: React.FC<DatasetBrowserProps> = ({ trainer }) => {
+  const { samples, labels, extractor, isTraining, deleteSamples, relabelSamples, recomputeFeatures } = trainer;
+
+  const [filter, setFilter] = useState<string>('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Indices into the full dataset, so actions apply to the right samples while filtered
+  const visible = useMemo(
+    () => samples
+      .map((sample, index) => ({ sample, index }))
+      .filter(({ sample }) => !filter || sample.label === filter),
+    [samples, samples.length, filter]
+  );
+
+  // Deleting / relabelling replaces the dataset and invalidates indices (new samples only append)
+  useEffect(() => {
+    setSelected(new Set());
+  }, [samples, extractor.id]);
+
+  useEffect(() => {
+    if (filter && !labels.includes(filter)) setFilter('');
+  }, [labels, filter]);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selectAllVisible = () => {
+    setSelected(new Set(visible.map(v => v.index)));
+  };
+
+  const handleDelete = () => {
+    if (selected.size === 0) return;
+    if (!confirm(`Delete ${selected.size} sample(s)?`)) return;
+    deleteSamples(Array.from(selected));
+  };
+
+  const handleMove = (target: string) => {
+    if (selected.size === 0 || !target) return;
+
+    let label = target;
+    if (target === '__new__') {
+      label = (prompt("New class name:") || '').trim();
+      if (!label) return;
+    }
+    relabelSamples(Array.from(selected), label);
+  };
+
+  if (samples.length === 0) {
+    return (
+      <div className="text-center py-3 text-gray-500 text-xs border border-dashed border-gray-700 rounded-lg">
+        No samples collected yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <select
+          value={filter}
+          onChange={(e) => { setFilter(e.target.value); setVisibleCount(PAGE_SIZE); }}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+        >
+          <option value="">All ({samples.length})</option>
+          {labels.map(label => (
+            <option key={label} value={label}>{label} ({trainer.dataCounts[label] || 0})</option>
+          ))}
+        </select>
+        <button
+          onClick={selected.size > 0 ? () => setSelected(new Set()) : selectAllVisible}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded"
+        >
+          {selected.size > 0 ? `Clear (${selected.size})` : 'Select all'}
+        </button>
+        <select
+          value=""
+          onChange={(e) => handleMove(e.target.value)}
+          disabled={selected.size === 0 || isTraining}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white disabled:opacity-50"
+        >
+          <option value="">Move to...</option>
+          {labels.map(label => (
+            <option key={label} value={label}>{label}</option>
+          ))}
+          <option value="__new__">+ New class...</option>
+        </select>
+        <button
+          onClick={handleDelete}
+          disabled={selected.size === 0 || isTraining}
+          className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded"
+        >
+          Delete
+        </button>
+        <button
+          onClick={recomputeFeatures}
+          disabled={isTraining || !samples.some(s => s.raw)}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded ml-auto"
+          title="Extract the features again from each sample's stored keypoints"
+        >
+          Recompute
+        </button>
+      </div>
+
+      {/* Thumbnail grid */}
+      <div className="grid grid-cols-5 gap-1 max-h-48 overflow-y-auto">
+        {visible.slice(0, visibleCount).map(({ sample, index }) => (
+          <button
+            key={index}
+            onClick={() => toggle(index)}
+            className={`relative rounded border bg-gray-950 flex flex-col items-center p-0.5 ${
+              selected.has(index) ? 'border-indigo-400 ring-1 ring-indigo-400' : 'border-gray-700 hover:border-gray-500'
+            }`}
+            title={`#${index + 1} · ${sample.label}`}
+          >
+            <SampleThumbnail extractor={extractor} sample={sample} />
+            <span className="text-[10px] text-gray-400 truncate w-full text-center">{sample.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {visible.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
+          className="w-full text-xs py-1 text-gray-400 hover:text-white"
+        >
+          Show more ({visible.length - visibleCount} remaining)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DatasetBrowser;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { EvaluationResult } from '../utils/evaluation';
+
+interface EvaluationReportProps {
+  evaluation: EvaluationResult;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const EvaluationReport: React.FC<EvaluationReportProps> = ({ evaluation }) => {
+  const { labels, matrix, perClass, accuracy, predictions, trainCount } = evaluation;
+  const [selectedCell, setSelectedCell] = useState<{ actual: string; predicted: string } | null>(null);
+
+  useEffect(() => {
+    setSelectedCell(null);
+  }, [evaluation]);
+
+  const cellSamples = selectedCell
+    ? predictions.filter(p => p.actual === selectedCell.actual && p.predicted === selectedCell.predicted)
+    : [];
+
+  const accuracyColor = accuracy >= 0.9 ? 'text-green-400' : accuracy >= 0.7 ? 'text-amber-400' : 'text-red-400';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 border border-gray-700 space-y-3">
+      <div className="flex items-baseline justify-between">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Validation</span>
+        <span className="text-xs text-gray-500">{predictions.length} held out · {trainCount} trained</span>
+      </div>
+
+      <div className="text-center">
+        <div className={`text-2xl font-extrabold ${accuracyColor}`}>{percent(accuracy)}</div>
+        <div className="text-xs text-gray-500">Accuracy</div>
+      </div>
+
+      {/* Confusion Matrix - rows: actual, columns: predicted */}
+      <div className="overflow-x-auto">
+        <table className="text-[10px] border-collapse mx-auto">
+          <thead>
+            <tr>
+              <th className="text-gray-500 font-normal p-1 text-right">actual \ pred</th>
+              {labels.map(label => (
+                <th key={label} className="text-gray-400 font-medium p-1 max-w-[56px] truncate" title={label}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {labels.map((actual, row) => {
+              const rowTotal = matrix[row].reduce((a, b) => a + b, 0);
+              return (
+                <tr key={actual}>
+                  <th className="text-gray-400 font-medium p-1 text-right max-w-[72px] truncate" title={actual}>{actual}</th>
+                  {labels.map((predicted, col) => {
+                    const count = matrix[row][col];
+                    const ratio = rowTotal > 0 ? count / rowTotal : 0;
+                    const isSelected = selectedCell?.actual === actual && selectedCell?.predicted === predicted;
+                    const color = row === col ? '34, 197, 94' : '239, 68, 68';
+                    return (
+                      <td key={predicted} className="p-0.5">
+                        <button
+                          onClick={() => setSelectedCell(isSelected || count === 0 ? null : { actual, predicted })}
+                          className={`w-9 h-7 rounded text-white font-medium ${isSelected ? 'ring-2 ring-white' : ''}`}
+                          style={{ backgroundColor: count > 0 ? `rgba(${color}, ${0.2 + ratio * 0.7})` : 'rgb(31, 41, 55)' }}
+                          title={`${actual} → ${predicted}: ${count}`}
+                        >
+                          {count}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedCell && (
+        <div className="text-xs bg-gray-900 rounded p-2 border border-gray-700">
+          <div className="text-gray-300 mb-1">
+            <b>{selectedCell.actual}</b> predicted as <b>{selectedCell.predicted}</b>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {cellSamples.map(p => (
+              <span key={p.index} className="px-1.5 py-0.5 bg-gray-800 rounded text-gray-400" title={`Confidence ${percent(p.confidence)}`}>
+                #{p.index + 1}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Per-class metrics */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal">Class</th>
+            <th className="text-right font-normal">Precision</th>
+            <th className="text-right font-normal">Recall</th>
+            <th className="text-right font-normal">N</th>
+          </tr>
+        </thead>
+        <tbody>
+          {perClass.map(m => (
+            <tr key={m.label} className="text-gray-300">
+              <td className="truncate max-w-[80px]" title={m.label}>{m.label}</td>
+              <td className="text-right">{percent(m.precision)}</td>
+              <td className="text-right">{percent(m.recall)}</td>
+              <td className="text-right text-gray-500">{m.support}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default EvaluationReport;
@@ -1,653 +1,110 @@
-
-import React, { useEffect, useState, useRef } from 'react';
-import { ML5NeuralNetwork, FaceMeshPrediction } from '../types';
-import { getNormalizedFacePoseVector, getFaceDistanceFeatures, getHybridFaceVector } from '../utils/faceUtils';
-import TrainingChart from './TrainingChart';
+import React from 'react';
+import { ClassificationResult, FaceMeshPrediction } from '../types';
+import { useTrainer, TrainerProjectHandle, TrainerSnapshot } from '../hooks/useTrainer';
+import { parseSequenceId, toSequenceId } from '../utils/featureExtractors';
+import TrainerPanel from './TrainerPanel';
+import MotionModeSelector from './MotionModeSelector';
 
 interface FaceTrainerProps {
   faceMeshDataRef: React.MutableRefObject<FaceMeshPrediction[]>;
-  onClassificationResult?: (result: string) => void;
+  onClassificationResult?: (result: ClassificationResult) => void;
+  onRegressionResult?: (values: Record<string, number>) => void; // regression task: output name -> value
+  projectRef?: React.MutableRefObject<TrainerProjectHandle | null>;
+  pendingSnapshot?: TrainerSnapshot | null;
+  onSnapshotRestored?: () => void;
 }
 
 type FaceMode = 'distance' | 'pose' | 'hybrid';
 
-const FaceTrainer: React.FC<FaceTrainerProps> = ({ faceMeshDataRef, onClassificationResult }) => {
-  const [network, setNetwork] = useState<ML5NeuralNetwork | null>(null);
-  const [labels, setLabels] = useState<string[]>([]);
-  const [newLabel, setNewLabel] = useState('');
-  const [trainingLogs, setTrainingLogs] = useState<{ epoch: number; loss: number }[]>([]);
-  const [isTraining, setIsTraining] = useState(false);
-  const [isTrained, setIsTrained] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [classificationResult, setClassificationResult] = useState<string>('');
-  const [confidence, setConfidence] = useState<number>(0);
-  const [faceMode, setFaceMode] = useState<FaceMode>('distance'); // 預設使用距離特徵
-  
-  // Training Hyperparameters
-  const [epochs, setEpochs] = useState(50);
-  const [batchSize, setBatchSize] = useState(12);
-  const [learningRate, setLearningRate] = useState(0.2);
-
-  // Stats tracking
-  const [dataCounts, setDataCounts] = useState<Record<string, number>>({});
-  
-  // File input ref for loading model
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const csvInputRef = useRef<HTMLInputElement>(null);
-
-  // Store raw training data for CSV export
-  const trainingDataRef = useRef<Array<{ inputs: number[], label: string }>>([]);
-
-  // Initialize network when face mode changes
-  useEffect(() => {
-    const initNetwork = () => {
-      if (window.ml5) {
-        const inputSize = faceMode === 'distance' ? 25 : faceMode === 'pose' ? 3 : 28; // hybrid = 25 + 3
-        const nn = window.ml5.neuralNetwork({
-          task: 'classification',
-          debug: false,
-          inputs: inputSize,
-          outputs: ['label']  // 明確指定輸出結構
-        });
-        setNetwork(nn);
-        
-        // Reset training state when mode changes
-        setLabels([]);
-        setDataCounts({});
-        setTrainingLogs([]);
-        setIsTrained(false);
-        setClassificationResult('');
-        setConfidence(0);
-      }
-    };
-    initNetwork();
-  }, [faceMode]);
-
-  // Handle Classification Loop - Sequential to prevent crashing
-  useEffect(() => {
-    let timerId: ReturnType<typeof setTimeout>;
-    let isCancelled = false;
-
-    const classify = () => {
-      if (isCancelled) return;
-
-      const currentData = faceMeshDataRef.current;
+const LABEL_PLACEHOLDERS: Record<FaceMode, string> = {
+  distance: 'e.g. Happy',
+  pose: 'e.g. Looking Left',
+  hybrid: 'e.g. Happy + Looking Left'
+};
 
-      // Ensure we have a trained network and face data
-      if (isTrained && network && currentData.length > 0) {
-        const input = faceMode === 'distance'
-          ? getFaceDistanceFeatures(currentData[0])
+// 第一個是預設模式（距離特徵）
+const FACE_EXTRACTOR_IDS = (Object.keys(LABEL_PLACEHOLDERS) as FaceMode[]).map(mode => `face-${mode}`);
+
+const FaceTrainer: React.FC<FaceTrainerProps> = ({
+  faceMeshDataRef,
+  onClassificationResult,
+  onRegressionResult,
+  projectRef,
+  pendingSnapshot,
+  onSnapshotRestored
+}) => {
+  // 切換模式會換成不同的 extractor，useTrainer 會重建網路並載入該模式自動儲存的資料
+  const trainer = useTrainer<FaceMeshPrediction>({
+    extractorIds: FACE_EXTRACTOR_IDS,
+    dataRef: faceMeshDataRef,
+    onClassificationResult,
+    onRegressionResult,
+    projectRef,
+    pendingSnapshot,
+    onSnapshotRestored
+  });
+
+  const { baseId, frames: clipFrames } = parseSequenceId(trainer.extractor.id); // 0 = single-frame expressions
+  const faceMode = baseId.replace(/^face-/, '') as FaceMode;
+  const switchMode = (mode: FaceMode) => trainer.switchExtractor(toSequenceId(`face-${mode}`, clipFrames));
+  const setClipFrames = (frames: number) => trainer.switchExtractor(toSequenceId(baseId, frames));
+
+  // Face Mode Selector
+  const modeSelector = (
+    <div className="mb-3">
+      <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">Detection Mode</label>
+      <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
+        <button
+          onClick={() => switchMode('distance')}
+          className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
+            faceMode === 'distance'
+              ? 'bg-indigo-600 text-white shadow-sm'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          Distance (25)
+        </button>
+        <button
+          onClick={() => switchMode('pose')}
+          className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
+            faceMode === 'pose'
+              ? 'bg-indigo-600 text-white shadow-sm'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          Pose (3)
+        </button>
+        <button
+          onClick={() => switchMode('hybrid')}
+          className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
+            faceMode === 'hybrid'
+              ? 'bg-indigo-600 text-white shadow-sm'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          Hybrid (28)
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {faceMode === 'distance' 
+          ? '🚀 Recommended: Fast training, rotation-invariant distance features for expressions' 
           : faceMode === 'pose'
-          ? getNormalizedFacePoseVector(currentData[0])
-          : getHybridFaceVector(currentData[0]);
-        
-        const expectedSize = faceMode === 'distance' ? 25 : faceMode === 'pose' ? 3 : 28;
-        if (input.length === expectedSize) {
-          try {
-            // NOTE: We wait for the callback BEFORE scheduling the next classification.
-            // This prevents "stacking" inference calls which crashes the browser.
-            network.classify(input, (results: any) => {
-              if (isCancelled) return;
-
-              // ml5 v1: callback receives results directly (not error, results)
-              if (results && Array.isArray(results) && results.length > 0) {
-                // Format: [{ label: 'Happy', confidence: 0.99 }, ...]
-                const topResult = results[0];
-                const label = topResult.label ?? '';
-                const confidence = topResult.confidence ?? 0;
-                
-                setClassificationResult(label);
-                setConfidence(confidence);
-                
-                // Pass result to parent component
-                if (onClassificationResult) {
-                  onClassificationResult(label);
-                }
-              }
-              
-              // Schedule next inference only after this one is done
-              timerId = setTimeout(classify, 100);
-            });
-            return; // Exit here, let the callback schedule next
-          } catch (e) {
-            console.error("Classification error:", e);
-          }
-        }
-      }
-      
-      // If no data or not trained, check again in 200ms
-      timerId = setTimeout(classify, 200);
-    };
-
-    if (isTrained) {
-      classify();
-    }
-
-    return () => {
-      isCancelled = true;
-      clearTimeout(timerId);
-    };
-  }, [isTrained, network, faceMeshDataRef, faceMode]); 
-
-  const addLabel = () => {
-    if (newLabel && !labels.includes(newLabel)) {
-      setLabels([...labels, newLabel]);
-      setDataCounts(prev => ({ ...prev, [newLabel]: 0 }));
-      setNewLabel('');
-    }
-  };
-
-  const collectData = (label: string) => {
-    if (!network || faceMeshDataRef.current.length === 0) return;
-
-    const inputs = faceMode === 'distance'
-      ? getFaceDistanceFeatures(faceMeshDataRef.current[0])
-      : faceMode === 'pose'
-      ? getNormalizedFacePoseVector(faceMeshDataRef.current[0])
-      : getHybridFaceVector(faceMeshDataRef.current[0]);
-    
-    const expectedSize = faceMode === 'distance' ? 25 : faceMode === 'pose' ? 3 : 28;
-    if (inputs.length === expectedSize) {
-      const target = { label };
-      network.addData(inputs, target);
-      
-      // Store for CSV export
-      trainingDataRef.current.push({ inputs, label });
-      
-      setDataCounts(prev => ({
-        ...prev,
-        [label]: (prev[label] || 0) + 1
-      }));
-    }
-  };
-
-  const trainModel = async () => {
-    if (!network) return;
-    
-    // Check if we have enough data
-    const totalSamples = Object.values(dataCounts).reduce((a, b) => (a as number) + (b as number), 0) as number;
-    if (totalSamples < 2) {
-      alert("Please collect at least 2 data samples before training.");
-      return;
-    }
-    
-    setIsTraining(true);
-    setTrainingLogs([]);
-    setIsTrained(false);
-
-    // Use setTimeout to allow UI to update before heavy computation
-    setTimeout(() => {
-      try {
-        network.normalizeData();
-
-        const trainingOptions = {
-          epochs,
-          batchSize,
-          learningRate
-        };
-
-        network.train(
-          trainingOptions,
-          (epoch: number, logs: { loss?: number; acc?: number }) => {
-            try {
-              // ml5 v1 format: (epoch, { acc, loss, val_acc, val_loss })
-              const loss = logs?.loss ?? 0;
-              
-              setTrainingLogs(prev => {
-                  return [{ epoch, loss }, ...prev].slice(0, 100);
-              });
-            } catch (e) {
-              console.warn("Error in training callback:", e);
-            }
-          },
-          () => {
-            // Finished training
-            setIsTraining(false);
-            setIsTrained(true);
-          }
-        );
-      } catch (error) {
-        console.error("Training error:", error);
-        setIsTraining(false);
-        alert("Training failed. Please collect more varied data samples and try again.");
-      }
-    }, 100);
-  };
-
-  const saveModel = () => {
-    if (network) {
-      const name = prompt("Enter model name (will trigger download):", `my-face-${faceMode}-model`);
-      if (name) {
-         network.save(name);
-      }
-    }
-  };
-
-  const handleLoadModel = () => {
-    fileInputRef.current?.click();
-  };
-
-  const onFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-
-    // ml5 neuralNetwork expects: *.json (model), *meta*.json (metadata), *.bin (weights)
-    const fileArray: File[] = Array.from(files);
-    
-    // 更寬鬆的檔案匹配：只要類型對就好
-    const jsonFile = fileArray.find(f => f.name.endsWith('.json') && !f.name.toLowerCase().includes('meta'));
-    const metaFile = fileArray.find(f => f.name.endsWith('.json') && f.name.toLowerCase().includes('meta'));
-    const weightsFile = fileArray.find(f => f.name.endsWith('.bin'));
-
-    if (!jsonFile || !metaFile || !weightsFile) {
-      alert("Please select all 3 model files:\n- Model JSON (*.json, no 'meta')\n- Metadata JSON (*meta*.json)\n- Weights binary (*.bin)");
-      return;
-    }
-
-    setIsLoading(true);
-    
-    try {
-      // Create a new neural network for loading
-      const inputSize = faceMode === 'distance' ? 25 : faceMode === 'pose' ? 3 : 28;
-      const nn = window.ml5.neuralNetwork({
-        task: 'classification',
-        debug: false,
-        inputs: inputSize,
-        outputs: ['label']  // 明確指定輸出結構
-      });
-
-      // Create object URLs for the files
-      const modelInfo = {
-        model: URL.createObjectURL(jsonFile as Blob),
-        metadata: URL.createObjectURL(metaFile as Blob),
-        weights: URL.createObjectURL(weightsFile as Blob),
-      };
-
-      // Load the model
-      nn.load(modelInfo, () => {
-        setNetwork(nn);
-        setIsTrained(true);
-        setIsLoading(false);
-        setLabels([]); // Clear labels since we don't know them from loaded model
-        setDataCounts({});
-        setTrainingLogs([]);
-        
-        // Revoke object URLs to free memory
-        URL.revokeObjectURL(modelInfo.model);
-        URL.revokeObjectURL(modelInfo.metadata);
-        URL.revokeObjectURL(modelInfo.weights);
-        
-        alert("Model loaded successfully! You can now make predictions.");
-      });
-    } catch (error) {
-      console.error("Error loading model:", error);
-      setIsLoading(false);
-      alert("Failed to load model. Please check the files and try again.");
-    }
-
-    // Reset file input
-    e.target.value = '';
-  };
-
-  const exportCSV = () => {
-    if (trainingDataRef.current.length === 0) {
-      alert("No training data to export!");
-      return;
-    }
-
-    // Create CSV content
-    const featureCount = trainingDataRef.current[0].inputs.length;
-    const headers = ['label', ...Array.from({ length: featureCount }, (_, i) => `feature_${i + 1}`)];
-    const csvRows = [headers.join(',')];
-
-    trainingDataRef.current.forEach(({ inputs, label }) => {
-      const row = [label, ...inputs.map(v => v.toFixed(6))];
-      csvRows.push(row.join(','));
-    });
-
-    const csvContent = csvRows.join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `face-${faceMode}-training-data.csv`;
-    link.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const handleImportCSV = () => {
-    csvInputRef.current?.click();
-  };
-
-  const onCSVSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const csvContent = event.target?.result as string;
-        const lines = csvContent.split('\n').filter(line => line.trim());
-        
-        if (lines.length < 2) {
-          alert("CSV file is empty or invalid!");
-          return;
-        }
-
-        // Skip header
-        const dataLines = lines.slice(1);
-        
-        // Clear existing data
-        trainingDataRef.current = [];
-        const newDataCounts: Record<string, number> = {};
-        const newLabels = new Set<string>();
-
-        // Parse and add data
-        dataLines.forEach(line => {
-          const values = line.split(',');
-          if (values.length < 2) return;
-
-          const label = values[0].trim();
-          const inputs = values.slice(1).map(v => parseFloat(v));
-
-          if (label && inputs.length > 0 && inputs.every(v => !isNaN(v))) {
-            trainingDataRef.current.push({ inputs, label });
-            newLabels.add(label);
-            newDataCounts[label] = (newDataCounts[label] || 0) + 1;
-
-            // Add to network
-            if (network) {
-              network.addData(inputs, { label });
-            }
-          }
-        });
-
-        // Update state
-        setLabels(Array.from(newLabels));
-        setDataCounts(newDataCounts);
-        setIsTrained(false);
-        
-        alert(`Successfully imported ${trainingDataRef.current.length} samples from ${newLabels.size} classes!`);
-      } catch (error) {
-        console.error("Error importing CSV:", error);
-        alert("Failed to import CSV file. Please check the file format.");
-      }
-    };
-
-    reader.readAsText(file);
-    e.target.value = '';
-  };
+          ? 'Detects head orientation: yaw, pitch, roll (3 features)'
+          : '🎯 Best: Combines expressions + head orientation (25 + 3 features)'}
+      </p>
+    </div>
+  );
 
   return (
-    <div className="w-full bg-gray-900 border border-gray-700 rounded-xl overflow-hidden shadow-2xl flex flex-col">
-      
-      {/* Header with Prediction Result */}
-      <div className="bg-gray-800 p-4 border-b border-gray-700 flex-none">
-        <div className="flex items-center justify-between mb-3">
-          <h3 className="text-lg font-bold text-white">Face Trainer</h3>
-          {isTrained && (
-            <span className="text-xs bg-green-600/20 text-green-400 px-2 py-1 rounded">Model Ready</span>
-          )}
-        </div>
-        
-        {/* Face Mode Selector */}
-        <div className="mb-3">
-          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">Detection Mode</label>
-          <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
-            <button
-              onClick={() => setFaceMode('distance')}
-              className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
-                faceMode === 'distance'
-                  ? 'bg-indigo-600 text-white shadow-sm'
-                  : 'text-gray-400 hover:text-gray-200'
-              }`}
-            >
-              Distance (25)
-            </button>
-            <button
-              onClick={() => setFaceMode('pose')}
-              className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
-                faceMode === 'pose'
-                  ? 'bg-indigo-600 text-white shadow-sm'
-                  : 'text-gray-400 hover:text-gray-200'
-              }`}
-            >
-              Pose (3)
-            </button>
-            <button
-              onClick={() => setFaceMode('hybrid')}
-              className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
-                faceMode === 'hybrid'
-                  ? 'bg-indigo-600 text-white shadow-sm'
-                  : 'text-gray-400 hover:text-gray-200'
-              }`}
-            >
-              Hybrid (28)
-            </button>
-          </div>
-          <p className="text-xs text-gray-500 mt-1">
-            {faceMode === 'distance' 
-              ? '🚀 Recommended: Fast training, rotation-invariant distance features for expressions' 
-              : faceMode === 'pose'
-              ? 'Detects head orientation: yaw, pitch, roll (3 features)'
-              : '🎯 Best: Combines expressions + head orientation (25 + 3 features)'}
-          </p>
-        </div>
-        
-        {/* Prediction Banner */}
-        <div className="bg-gray-900 rounded-lg p-4 text-center border border-gray-700">
-          {isTrained ? (
-            <>
-              <p className="text-gray-500 text-xs mb-1">Prediction</p>
-              <h2 className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-blue-500">
-                {classificationResult || "Waiting..."}
-              </h2>
-              {classificationResult && (
-                <div className="mt-1 text-xs text-gray-500">
-                  Confidence: {(confidence * 100).toFixed(1)}%
-                </div>
-              )}
-            </>
-          ) : (
-            <p className="text-gray-500 text-sm italic">Train or load a model to see predictions</p>
-          )}
-        </div>
-      </div>
-      
-      {/* Scrollable Content */}
-      <div className="overflow-y-auto p-4 space-y-4 flex-none max-h-[400px]">
-        
-        {/* Add Class */}
-        <div className="space-y-2">
-          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Add New Class</label>
-          <div className="flex gap-2">
-            <input 
-              type="text" 
-              value={newLabel}
-              onChange={(e) => setNewLabel(e.target.value)}
-              placeholder={faceMode === 'distance' ? 'e.g. Happy' : faceMode === 'pose' ? 'e.g. Looking Left' : 'e.g. Happy + Looking Left'}
-              className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            />
-            <button 
-              onClick={addLabel}
-              disabled={!newLabel}
-              className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg font-medium transition-colors text-sm"
-            >
-              Add
-            </button>
-          </div>
-        </div>
-
-        {/* Class List & Data Collection */}
-        <div className="space-y-2">
-          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Classes ({labels.length})</label>
-          <div className="space-y-2 max-h-32 overflow-y-auto">
-            {labels.length === 0 ? (
-              <div className="text-center py-4 text-gray-500 text-sm border border-dashed border-gray-700 rounded-lg">
-                Add classes above to start
-              </div>
-            ) : (
-              labels.map(label => (
-                <div key={label} className="bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-700">
-                  <div>
-                    <span className="font-medium text-white text-sm">{label}</span>
-                    <span className="text-xs text-indigo-400 ml-2">({dataCounts[label] || 0})</span>
-                  </div>
-                  <button
-                    onClick={() => collectData(label)}
-                    className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs px-2 py-1 rounded font-medium transition-colors"
-                    disabled={isTraining}
-                  >
-                    + Data
-                  </button>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-
-        {/* Training Settings - Collapsible */}
-        <details className="group">
-          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
-            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-            </svg>
-            Training Settings
-          </summary>
-          <div className="grid grid-cols-3 gap-2 mt-2">
-            <div>
-              <label className="text-xs text-gray-500">Epochs</label>
-              <input 
-                type="number" 
-                value={epochs} 
-                onChange={(e) => setEpochs(Number(e.target.value))}
-                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
-              />
-            </div>
-            <div>
-              <label className="text-xs text-gray-500">Batch</label>
-              <input 
-                type="number" 
-                value={batchSize} 
-                onChange={(e) => setBatchSize(Number(e.target.value))}
-                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
-              />
-            </div>
-            <div>
-              <label className="text-xs text-gray-500">LR</label>
-              <input 
-                type="number" 
-                step="0.01"
-                value={learningRate} 
-                onChange={(e) => setLearningRate(Number(e.target.value))}
-                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
-              />
-            </div>
-          </div>
-        </details>
-
-        {/* Training Chart */}
-        {trainingLogs.length > 0 && (
-          <TrainingChart trainingLogs={trainingLogs} maxEpochs={epochs} />
-        )}
-      </div>
-
-      {/* Footer Actions */}
-      <div className="p-4 border-t border-gray-700 bg-gray-800 space-y-2 flex-none">
-        {/* Train Model Button with Info */}
-        <div className="space-y-1">
-          <button
-            onClick={trainModel}
-            disabled={
-              isTraining || 
-              isLoading || 
-              labels.length < 2 || 
-              Object.values(dataCounts).reduce((a: number, b: number) => a + b, 0) < 2
-            }
-            className={`w-full py-2.5 rounded-lg font-bold text-white transition-all text-sm ${
-              isTraining ? 'bg-gray-600 cursor-wait' : 
-              (labels.length < 2 || Object.values(dataCounts).reduce((a: number, b: number) => a + b, 0) < 2) 
-                ? 'bg-gray-700 opacity-50 cursor-not-allowed' 
-                : 'bg-green-600 hover:bg-green-500'
-            }`}
-          >
-            {isTraining ? 'Training...' : 'Train Model'}
-          </button>
-          {labels.length < 2 && (
-            <p className="text-xs text-amber-400 text-center">⚠️ Add at least 2 classes to train</p>
-          )}
-          {labels.length >= 2 && Object.values(dataCounts).reduce((a: number, b: number) => a + b, 0) < 2 && (
-            <p className="text-xs text-amber-400 text-center">⚠️ Collect at least 2 data samples to train</p>
-          )}
-        </div>
-        
-        <div className="flex gap-2">
-          {isTrained && (
-            <button
-              onClick={saveModel}
-              className="flex-1 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-medium transition-colors text-sm"
-            >
-              Save
-            </button>
-          )}
-          
-          <input
-            ref={fileInputRef}
-            type="file"
-            multiple
-            accept=".json,.bin"
-            onChange={onFileSelected}
-            className="hidden"
-          />
-          <button
-            onClick={handleLoadModel}
-            disabled={isTraining || isLoading}
-            className={`flex-1 py-2 rounded-lg font-medium text-white transition-colors text-sm flex items-center justify-center gap-1 ${
-              isLoading ? 'bg-gray-600 cursor-wait' : 'bg-blue-600 hover:bg-blue-500'
-            }`}
-          >
-            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-            </svg>
-            {isLoading ? 'Loading...' : 'Load'}
-          </button>
-        </div>
-
-        {/* CSV Import/Export */}
-        <div className="flex gap-2">
-          <button
-            onClick={exportCSV}
-            disabled={trainingDataRef.current.length === 0}
-            className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-1"
-          >
-            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-            </svg>
-            Export CSV
-          </button>
-
-          <input
-            ref={csvInputRef}
-            type="file"
-            accept=".csv"
-            onChange={onCSVSelected}
-            className="hidden"
-          />
-          <button
-            onClick={handleImportCSV}
-            disabled={isTraining || isLoading}
-            className="flex-1 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-1"
-          >
-            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-            </svg>
-            Import CSV
-          </button>
-        </div>
-      </div>
-    </div>
+    <TrainerPanel
+      title="Face Trainer"
+      trainer={trainer}
+      labelPlaceholder={clipFrames > 0 ? 'e.g. Nodding' : LABEL_PLACEHOLDERS[faceMode]}
+      modelName={`my-face-${faceMode}${clipFrames > 0 ? `-motion${clipFrames}` : ''}-model`}
+      csvFileName={`face-${faceMode}${clipFrames > 0 ? `-motion${clipFrames}` : ''}-training-data.csv`}
+      headerExtras={<>{modeSelector}<MotionModeSelector frames={clipFrames} onChange={setClipFrames} /></>}
+    />
   );
 };
 
 export default FaceTrainer;
-
@@ -1,11 +1,13 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { ImageClassifierResult } from '../types';
+import { ClassificationResult, ImageClassifierResult, SmoothingOptions } from '../types';
+import { DEFAULT_SMOOTHING_OPTIONS, SmoothedResult, createResultSmoother } from '../utils/resultSmoothing';
+import SmoothingSettings from './SmoothingSettings';
 
 interface ImageClassifierProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   isActive: boolean;
-  onClassificationResult?: (result: string) => void;
+  onClassificationResult?: (result: ClassificationResult) => void;
 }
 
 type PrebuiltModel = 'MobileNet' | 'Darknet' | 'Darknet-tiny' | 'DoodleNet';
@@ -19,11 +21,17 @@ const ImageClassifier: React.FC<ImageClassifierProps> = ({ videoRef, isActive, o
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<ImageClassifierResult[]>([]);
   const [isClassifying, setIsClassifying] = useState(false);
+  // Classifies every 500ms - a shorter window than the trainers keeps the delay similar
+  const [smoothing, setSmoothing] = useState<SmoothingOptions>({ ...DEFAULT_SMOOTHING_OPTIONS, window: 3, minHoldMs: 0 });
+  const [stableResult, setStableResult] = useState<SmoothedResult | null>(null);
   
   const classifierRef = useRef<any>(null);
   const isClassifyingRef = useRef(false);
   const classificationTimerRef = useRef<number | null>(null);
   const tempCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const smootherRef = useRef(createResultSmoother());
+  const smoothingRef = useRef(smoothing);
+  smoothingRef.current = smoothing;
 
   // Cleanup on unmount
   useEffect(() => {
@@ -56,6 +64,8 @@ const ImageClassifier: React.FC<ImageClassifierProps> = ({ videoRef, isActive, o
     isClassifyingRef.current = false;
     setIsClassifying(false);
     setResults([]);
+    setStableResult(null);
+    smootherRef.current.reset();
   };
 
   const loadModel = async () => {
@@ -148,9 +158,17 @@ const ImageClassifier: React.FC<ImageClassifierProps> = ({ videoRef, isActive, o
             const topResults = classificationResults.slice(0, 3);
             setResults(topResults);
             
-            // Notify parent component with the top result
-            if (topResults.length > 0 && onClassificationResult) {
-              onClassificationResult(topResults[0].label);
+            // Notify parent component with the smoothed top result
+            if (topResults.length > 0) {
+              const stable = smootherRef.current.update(classificationResults, smoothingRef.current);
+              setStableResult(stable);
+              onClassificationResult?.({
+                ...stable,
+                scores: classificationResults.map(({ label, confidence }) => ({ label, confidence })),
+                timestamp: Date.now(),
+                source: 'image',
+                modelId: modelType === 'custom' ? customModelUrl.trim() : prebuiltModel
+              });
             }
           }
 
@@ -326,7 +344,14 @@ const ImageClassifier: React.FC<ImageClassifierProps> = ({ videoRef, isActive, o
         {/* Classification Results */}
         {isModelLoaded && results.length > 0 && (
           <div className="space-y-2">
-            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Predictions</label>
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Predictions</label>
+              {stableResult && (
+                <span className="text-xs text-gray-400" title="Smoothed result sent to combination rules">
+                  Stable: <span className="text-white font-medium">{stableResult.label}</span>
+                </span>
+              )}
+            </div>
             <div className="space-y-2">
               {results.map((result, index) => (
                 <div key={index} className="bg-gray-800 rounded-lg p-3 border border-gray-700">
@@ -352,6 +377,19 @@ const ImageClassifier: React.FC<ImageClassifierProps> = ({ videoRef, isActive, o
           </div>
         )}
 
+        {/* Smoothing - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Smoothing
+          </summary>
+          <div className="mt-2">
+            <SmoothingSettings options={smoothing} onChange={setSmoothing} />
+          </div>
+        </details>
+
         {/* Status when no results */}
         {isModelLoaded && results.length === 0 && !isLoading && (
           <div className="text-center py-8 text-gray-500 text-sm border border-dashed border-gray-700 rounded-lg">
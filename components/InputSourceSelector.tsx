@@ -0,0 +1,138 @@
+import React, { useRef } from 'react';
+import { InputSource } from '../types';
+import { isImageFile, isVideoFile, sortFilesByName } from '../utils/inputSources';
+import { parseSession } from '../utils/landmarkSession';
+
+interface InputSourceSelectorProps {
+  source: InputSource;
+  onChange: (source: InputSource) => void;
+}
+
+const IMAGE_INTERVALS = [250, 500, 1000, 2000];
+
+const InputSourceSelector: React.FC<InputSourceSelectorProps> = ({ source, onChange }) => {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imagesInputRef = useRef<HTMLInputElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+
+  const onVideoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!isVideoFile(file)) {
+      alert("Please select an MP4 or WebM video file.");
+      return;
+    }
+    onChange({ kind: 'video', file, loop: true });
+  };
+
+  const onImagesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    const images = sortFilesByName(files.filter(isImageFile));
+
+    if (images.length === 0) {
+      alert("No images found. Please select a folder containing PNG/JPG/WebP images.");
+      return;
+    }
+    onChange({ kind: 'images', files: images, interval: 500, loop: true });
+  };
+
+  const onSessionSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = parseSession(await file.text());
+      if (session.frames.length === 0) {
+        alert("This session file contains no recorded frames.");
+        return;
+      }
+      onChange({ kind: 'session', session, name: file.name, loop: false });
+    } catch (error) {
+      console.error("Error loading session:", error);
+      alert("Failed to load session file. Please select a Vision Lab .json or .ndjson session.");
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-2 rounded-full text-sm font-medium transition-all ${
+      active ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'
+    }`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="bg-gray-800 rounded-full p-1 flex items-center border border-gray-700 shadow-inner">
+        <button onClick={() => onChange({ kind: 'camera' })} className={tabClass(source.kind === 'camera')}>
+          📷 Camera
+        </button>
+        <button onClick={() => videoInputRef.current?.click()} className={tabClass(source.kind === 'video')}>
+          🎞️ Video
+        </button>
+        <button onClick={() => imagesInputRef.current?.click()} className={tabClass(source.kind === 'images')}>
+          🖼️ Images
+        </button>
+        <button onClick={() => sessionInputRef.current?.click()} className={tabClass(source.kind === 'session')}>
+          📼 Session
+        </button>
+      </div>
+
+      {source.kind === 'video' && (
+        <span className="text-xs text-gray-400 max-w-[160px] truncate" title={source.file.name}>
+          {source.file.name}
+        </span>
+      )}
+
+      {source.kind === 'session' && (
+        <span className="text-xs text-gray-400 max-w-[160px] truncate" title={source.name}>
+          {source.name} ({(source.session.duration / 1000).toFixed(1)}s)
+        </span>
+      )}
+
+      {source.kind === 'images' && (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <span>{source.files.length} images</span>
+          <select
+            value={source.interval}
+            onChange={(e) => onChange({ ...source, interval: Number(e.target.value) })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+            title="Time per image"
+          >
+            {IMAGE_INTERVALS.map(ms => (
+              <option key={ms} value={ms}>{ms / 1000}s / image</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <input
+        ref={videoInputRef}
+        type="file"
+        accept="video/mp4,video/webm,.mp4,.webm"
+        onChange={onVideoSelected}
+        className="hidden"
+      />
+      <input
+        ref={sessionInputRef}
+        type="file"
+        accept=".json,.ndjson"
+        onChange={onSessionSelected}
+        className="hidden"
+      />
+      <input
+        ref={imagesInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={onImagesSelected}
+        className="hidden"
+        // Allow picking a whole folder of stills (non-standard attribute)
+        {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+      />
+    </div>
+  );
+};
+
+export default InputSourceSelector;
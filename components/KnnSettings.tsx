@@ -0,0 +1,95 @@
+import React from 'react';
+import { KnnMetric, KnnOptions } from '../utils/knnClassifier';
+
+interface KnnSettingsProps {
+  options: KnnOptions;
+  labels: string[];
+  dataCounts: Record<string, number>;
+  onChange: (options: KnnOptions) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm";
+
+/**
+ * KNN 設定：k、距離計算方式、距離加權、每個 class 的投票權重
+ */
+const KnnSettings: React.FC<KnnSettingsProps> = ({ options, labels, dataCounts, onChange }) => {
+  const update = (patch: Partial<KnnOptions>) => onChange({ ...options, ...patch });
+  // Cleared or half-typed numbers keep the previous value - NaN would stop every prediction
+  const readNumber = (e: React.ChangeEvent<HTMLInputElement>) =>
+    Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : null;
+  const missing = labels.filter(label => !dataCounts[label]);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <div>
+          <label className="text-xs text-gray-500">k</label>
+          <input
+            type="number"
+            min={1}
+            value={options.k}
+            onChange={(e) => {
+              const k = readNumber(e);
+              if (k !== null) update({ k: Math.max(1, Math.floor(k)) });
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Distance</label>
+          <select
+            value={options.metric}
+            onChange={(e) => update({ metric: e.target.value as KnnMetric })}
+            className={inputClass}
+          >
+            <option value="euclidean">Euclidean</option>
+            <option value="manhattan">Manhattan</option>
+            <option value="cosine">Cosine</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-1 text-xs text-gray-400 pb-1.5" title="Closer neighbours get a bigger vote">
+          <input
+            type="checkbox"
+            checked={options.distanceWeighted}
+            onChange={(e) => update({ distanceWeighted: e.target.checked })}
+          />
+          Weight by distance
+        </label>
+      </div>
+
+      {/* Per-class vote weights */}
+      {labels.length > 0 && (
+        <details className="group">
+          <summary className="text-xs text-gray-500 cursor-pointer">Class weights</summary>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-1">
+            {labels.map(label => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="flex-1 truncate text-xs text-gray-300" title={label}>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={options.classWeights[label] ?? 1}
+                  onChange={(e) => {
+                    const weight = readNumber(e);
+                    if (weight !== null) update({ classWeights: { ...options.classWeights, [label]: Math.max(0, weight) } });
+                  }}
+                  className="w-16 bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 text-white text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      <p className={`text-xs ${missing.length > 0 ? 'text-amber-400' : 'text-gray-500'}`}>
+        {missing.length > 0
+          ? `⚠️ Collect a sample for ${missing.join(', ')} to start predicting`
+          : 'Predicts from the dataset directly - new samples count immediately, no training needed.'}
+      </p>
+    </div>
+  );
+};
+
+export default KnnSettings;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { SEQUENCE_FRAME_INTERVAL, SEQUENCE_LENGTHS } from '../utils/featureExtractors';
+
+interface MotionModeSelectorProps {
+  frames: number; // 0 = single frame
+  onChange: (frames: number) => void;
+}
+
+/**
+ * 單幀姿勢 / 動作片段切換（揮手、滑動、深蹲這類要看連續動作的類別）
+ */
+const MotionModeSelector: React.FC<MotionModeSelectorProps> = ({ frames, onChange }) => (
+  <div className="mb-3">
+    <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">Classify</label>
+    <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
+      {[0, ...SEQUENCE_LENGTHS].map(length => (
+        <button
+          key={length}
+          onClick={() => onChange(length)}
+          className={`flex-1 px-3 py-2 rounded-md text-xs font-medium transition-all ${
+            frames === length
+              ? 'bg-indigo-600 text-white shadow-sm'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          {length === 0 ? 'Pose' : `Motion ${(length * SEQUENCE_FRAME_INTERVAL) / 1000}s`}
+        </button>
+      ))}
+    </div>
+    {frames > 0 && (
+      <p className="text-xs text-gray-500 mt-1">
+        🎬 Each sample is a {frames}-frame clip ({1000 / SEQUENCE_FRAME_INTERVAL} fps) - for waves, swipes or repetitions. Predictions use the last {(frames * SEQUENCE_FRAME_INTERVAL) / 1000}s.
+      </p>
+    )}
+  </div>
+);
+
+export default MotionModeSelector;
@@ -1,11 +1,16 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as ort from 'onnxruntime-web';
-import { ObjectDetectionResult } from '../types';
+import { ObjectDetectionResult, ObjectDetectorSettings, SmoothingOptions } from '../types';
+import { DEFAULT_SMOOTHING_OPTIONS } from '../utils/resultSmoothing';
+import SmoothingSettings from './SmoothingSettings';
 
 interface ObjectDetectorProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   isActive: boolean;
-  onDetections?: (detections: ObjectDetectionResult[]) => void;
+  onDetections?: (detections: ObjectDetectionResult[], modelName: string) => void;
+  settingsRef?: React.MutableRefObject<ObjectDetectorSettings | null>;
+  pendingSettings?: ObjectDetectorSettings | null;
+  onSettingsRestored?: () => void;
 }
 
 const DEFAULT_COCO_LABELS = [
@@ -24,7 +29,14 @@ const DEFAULT_COCO_LABELS = [
   'scissors', 'teddy bear', 'hair drier', 'toothbrush'
 ];
 
-const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onDetections }) => {
+const ObjectDetector: React.FC<ObjectDetectorProps> = ({
+  videoRef,
+  isActive,
+  onDetections,
+  settingsRef,
+  pendingSettings,
+  onSettingsRestored
+}) => {
   const [session, setSession] = useState<ort.InferenceSession | null>(null);
   const [modelName, setModelName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -37,6 +49,7 @@ const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onD
   const [inputSize, setInputSize] = useState({ width: 640, height: 640 });
   const [inputLayout, setInputLayout] = useState<'NCHW' | 'NHWC'>('NCHW');
   const [useLetterbox, setUseLetterbox] = useState(true);
+  const [smoothing, setSmoothing] = useState<SmoothingOptions>(DEFAULT_SMOOTHING_OPTIONS); // applied to the top object in App
   const [inputName, setInputName] = useState('');
   const [outputName, setOutputName] = useState('');
 
@@ -54,6 +67,27 @@ const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onD
     videoHeight: 1
   });
 
+  // Expose settings for project save
+  useEffect(() => {
+    if (!settingsRef) return;
+    settingsRef.current = { confidenceThreshold, iouThreshold, labelsText, useLetterbox, smoothing };
+  }, [settingsRef, confidenceThreshold, iouThreshold, labelsText, useLetterbox, smoothing]);
+
+  useEffect(() => () => {
+    if (settingsRef) settingsRef.current = null;
+  }, [settingsRef]);
+
+  // Apply settings from a loaded project
+  useEffect(() => {
+    if (!pendingSettings) return;
+    setConfidenceThreshold(pendingSettings.confidenceThreshold);
+    setIouThreshold(pendingSettings.iouThreshold);
+    setLabelsText(pendingSettings.labelsText);
+    setUseLetterbox(pendingSettings.useLetterbox);
+    setSmoothing({ ...DEFAULT_SMOOTHING_OPTIONS, ...pendingSettings.smoothing });
+    onSettingsRestored?.();
+  }, [pendingSettings]);
+
   const labels = useMemo(() => {
     const parsed = labelsText
       .split('\n')
@@ -114,7 +148,7 @@ const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onD
     setIsDetecting(false);
     setDetections([]);
     if (onDetections) {
-      onDetections([]);
+      onDetections([], modelName);
     }
   };
 
@@ -533,7 +567,7 @@ const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onD
       const newDetections = parseYoloOutput(output, video.videoWidth, video.videoHeight);
       setDetections(newDetections);
       if (onDetections) {
-        onDetections(newDetections);
+        onDetections(newDetections, modelName);
       }
     } catch (err) {
       console.error('Detection error:', err);
@@ -700,6 +734,19 @@ const ObjectDetector: React.FC<ObjectDetectorProps> = ({ videoRef, isActive, onD
           <span>Output format: {inputLayout} @ {inputSize.width}×{inputSize.height}</span>
         </div>
 
+        {/* Top object smoothing - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Top Object Smoothing
+          </summary>
+          <div className="mt-2">
+            <SmoothingSettings options={smoothing} onChange={setSmoothing} />
+          </div>
+        </details>
+
         <div className="space-y-2">
           <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Detections</label>
           {session && detections.length === 0 && (
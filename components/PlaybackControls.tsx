@@ -0,0 +1,95 @@
+import React from 'react';
+import { PlaybackState } from '../types';
+
+interface PlaybackControlsProps {
+  playback: PlaybackState;
+  unit: 'seconds' | 'frames';
+  onTogglePlay: () => void;
+  onSeek: (position: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+const formatTime = (seconds: number) => {
+  if (!isFinite(seconds) || seconds < 0) return '0:00';
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ playback, unit, onTogglePlay, onSeek, onLoopChange }) => {
+  const isFrames = unit === 'frames';
+  const max = isFrames ? Math.max(0, playback.duration - 1) : playback.duration;
+  const positionLabel = isFrames
+    ? `${Math.min(playback.position + 1, playback.duration)} / ${playback.duration}`
+    : `${formatTime(playback.position)} / ${formatTime(playback.duration)}`;
+
+  return (
+    <div className="absolute bottom-3 left-3 right-3 z-20 bg-black/70 backdrop-blur rounded-lg px-3 py-2 flex items-center gap-3 border border-gray-700">
+      {isFrames && (
+        <button
+          onClick={() => onSeek(playback.position - 1)}
+          disabled={playback.position <= 0}
+          className="text-gray-300 hover:text-white disabled:opacity-40"
+          title="Previous image"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+      )}
+
+      <button
+        onClick={onTogglePlay}
+        className="w-8 h-8 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white flex items-center justify-center flex-none"
+        title={playback.isPlaying ? 'Pause' : 'Play'}
+      >
+        {playback.isPlaying ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        )}
+      </button>
+
+      {isFrames && (
+        <button
+          onClick={() => onSeek(playback.position + 1)}
+          disabled={playback.position >= playback.duration - 1}
+          className="text-gray-300 hover:text-white disabled:opacity-40"
+          title="Next image"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      )}
+
+      <input
+        type="range"
+        min={0}
+        max={max || 0}
+        step={isFrames ? 1 : 0.01}
+        value={Math.min(playback.position, max)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-indigo-500"
+      />
+
+      <span className="text-xs text-gray-300 tabular-nums whitespace-nowrap">{positionLabel}</span>
+
+      <label className="flex items-center gap-1 text-xs text-gray-300 whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={playback.loop}
+          onChange={(e) => onLoopChange(e.target.checked)}
+          className="accent-indigo-500"
+        />
+        Loop
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
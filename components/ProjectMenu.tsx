@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { PROJECT_EXTENSION } from '../utils/projectFile';
+
+interface ProjectMenuProps {
+  onSave: (name: string) => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+}
+
+const ProjectMenu: React.FC<ProjectMenuProps> = ({ onSave, onOpen }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async () => {
+    const name = prompt('Project name:', 'my-project');
+    if (!name) return;
+
+    setIsBusy(true);
+    try {
+      await onSave(name);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      await onOpen(file);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const buttonClass = "px-4 py-2 rounded-full text-sm font-medium transition-all border bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700 hover:text-white disabled:opacity-50";
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={handleSave} disabled={isBusy} className={buttonClass} title="Save datasets, models and rules to one file">
+        💾 Save Project
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={buttonClass}>
+        📂 Open Project
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={PROJECT_EXTENSION}
+        onChange={handleOpen}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default ProjectMenu;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Modality } from '../utils/featureExtractors';
+
+interface RegressionOutputsProps {
+  outputs: Partial<Record<Modality, Record<string, number>>>;
+}
+
+const MODALITY_NAMES: Record<Modality, string> = {
+  hand: '👋 Hand',
+  face: '🤖 Face',
+  body: '🏃 Body'
+};
+
+/**
+ * 回歸訓練器的即時輸出（App 層級，給其他功能讀取數值）
+ */
+const RegressionOutputs: React.FC<RegressionOutputsProps> = ({ outputs }) => {
+  const entries = (Object.entries(outputs) as [Modality, Record<string, number>][])
+    .filter(([, values]) => Object.keys(values).length > 0);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700 rounded-xl p-4 shadow-2xl space-y-2">
+      <h3 className="text-sm font-bold text-white">Live Outputs</h3>
+      {entries.map(([modality, values]) => (
+        <div key={modality} className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-400 w-16">{MODALITY_NAMES[modality]}</span>
+          {Object.entries(values).map(([name, value]) => (
+            <span key={name} className="bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-gray-300">
+              {name} <span className="font-mono text-white">{value.toFixed(2)}</span>
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RegressionOutputs;
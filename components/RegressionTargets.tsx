@@ -0,0 +1,100 @@
+import React from 'react';
+import { RegressionTarget, clampTarget } from '../utils/regression';
+
+interface RegressionTargetsProps {
+  targets: RegressionTarget[];
+  values: number[];
+  onTargetsChange: (targets: RegressionTarget[]) => void;
+  onValuesChange: (values: number[]) => void;
+  canEditTargets: boolean; // adding / removing targets only while the dataset is empty
+  captureButtons: React.ReactNode;
+}
+
+const MAX_TARGETS = 4;
+
+/**
+ * 回歸模式的 target 設定：每個 target 一條滑桿，收集樣本時記下目前滑桿的值
+ */
+const RegressionTargets: React.FC<RegressionTargetsProps> = ({
+  targets,
+  values,
+  onTargetsChange,
+  onValuesChange,
+  canEditTargets,
+  captureButtons
+}) => {
+  const updateTarget = (index: number, patch: Partial<RegressionTarget>) => {
+    onTargetsChange(targets.map((target, i) => (i === index ? { ...target, ...patch } : target)));
+  };
+
+  const addTarget = () => {
+    let n = targets.length + 1;
+    while (targets.some(t => t.name === `value${n}`)) n++;
+    onTargetsChange([...targets, { name: `value${n}`, min: 0, max: 1 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {targets.map((target, i) => (
+        <div key={i} className="bg-gray-800 rounded-lg p-2 border border-gray-700 space-y-1">
+          <div className="flex items-center gap-2">
+            <input
+              value={target.name}
+              // '|' separates target names in the CSV metadata
+              onChange={(e) => updateTarget(i, { name: e.target.value.replace(/\|/g, '') })}
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-0.5 text-white text-sm"
+              title="Output name"
+            />
+            <input
+              type="number"
+              value={target.min}
+              onChange={(e) => updateTarget(i, { min: Number(e.target.value) })}
+              className="w-16 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 text-white text-xs"
+              title="Minimum"
+            />
+            <input
+              type="number"
+              value={target.max}
+              onChange={(e) => updateTarget(i, { max: Number(e.target.value) })}
+              className="w-16 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 text-white text-xs"
+              title="Maximum"
+            />
+            {canEditTargets && targets.length > 1 && (
+              <button
+                onClick={() => onTargetsChange(targets.filter((_, j) => j !== i))}
+                className="text-gray-500 hover:text-red-400 text-xs"
+                title="Remove target"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={target.min}
+              max={target.max}
+              step={(target.max - target.min) / 100 || 0.01}
+              value={values[i] ?? target.min}
+              onChange={(e) => onValuesChange(values.map((v, j) => (j === i ? clampTarget(Number(e.target.value), target) : v)))}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-xs font-mono text-indigo-300">{(values[i] ?? target.min).toFixed(2)}</span>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        {canEditTargets && targets.length < MAX_TARGETS ? (
+          <button onClick={addTarget} className="text-xs text-indigo-400 hover:text-indigo-300">
+            + Add target
+          </button>
+        ) : <span />}
+        {captureButtons}
+      </div>
+      <p className="text-xs text-gray-500">Set the sliders, then hold the pose while collecting - each sample keeps the slider values.</p>
+    </div>
+  );
+};
+
+export default RegressionTargets;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { RejectionOptions, DEFAULT_BACKGROUND_LABEL } from '../utils/openSet';
+import { UNKNOWN_LABEL } from '../utils/templateMatcher';
+
+interface RejectionSettingsProps {
+  options: RejectionOptions;
+  labels: string[];
+  distance: number | null; // live distance to the nearest sample, helps pick a threshold
+  onChange: (options: RejectionOptions) => void;
+  onAddBackgroundClass: (label: string) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm";
+
+/**
+ * Unknown 判定：信心度門檻、距離門檻、背景 class
+ */
+const RejectionSettings: React.FC<RejectionSettingsProps> = ({ options, labels, distance, onChange, onAddBackgroundClass }) => {
+  const update = (patch: Partial<RejectionOptions>) => onChange({ ...options, ...patch });
+  const hasBackground = labels.includes(options.backgroundLabel);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="text-xs text-gray-500">Min confidence %</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(options.minConfidence * 100)}
+            onChange={(e) => update({ minConfidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+            className={inputClass}
+            title="0 = always report the top class"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Max distance</label>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={options.maxDistance}
+            onChange={(e) => update({ maxDistance: Math.max(0, Number(e.target.value)) })}
+            className={inputClass}
+            title={distance !== null ? `Live distance to the nearest sample: ${distance.toFixed(3)}` : '0 = no distance check'}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Background class</label>
+          <select
+            value={hasBackground ? options.backgroundLabel : ''}
+            onChange={(e) => update({ backgroundLabel: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {labels.map(label => (
+              <option key={label} value={label}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!hasBackground && !labels.includes(DEFAULT_BACKGROUND_LABEL) && (
+        <button
+          onClick={() => onAddBackgroundClass(DEFAULT_BACKGROUND_LABEL)}
+          className="text-xs text-indigo-400 hover:text-indigo-300"
+        >
+          + Add a "{DEFAULT_BACKGROUND_LABEL}" background class
+        </button>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Predictions below the confidence, farther than the distance from every collected sample, or of the background class
+        are reported as <span className="font-mono text-gray-300">{UNKNOWN_LABEL}</span>. Fill the background class with random poses,
+        transitions and an empty view. 0 turns a threshold off.
+        {distance !== null && <> Live distance: <span className="font-mono text-gray-300">{distance.toFixed(3)}</span></>}
+      </p>
+    </div>
+  );
+};
+
+export default RejectionSettings;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { LandmarkSession } from '../types';
+import { createSessionRecorder, serializeSession, SessionRecorder as Recorder } from '../utils/landmarkSession';
+
+interface SessionRecorderProps {
+  recorderRef: React.MutableRefObject<Recorder | null>;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  mirrored: boolean;
+  disabled: boolean;
+  onReplay: (session: LandmarkSession, name: string) => void;
+}
+
+const SessionRecorder: React.FC<SessionRecorderProps> = ({ recorderRef, videoRef, mirrored, disabled, onReplay }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [stats, setStats] = useState({ frames: 0, seconds: 0 });
+  const [lastSession, setLastSession] = useState<LandmarkSession | null>(null);
+
+  // Live counter while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = window.setInterval(() => {
+      const recorder = recorderRef.current;
+      if (recorder) {
+        setStats({ frames: recorder.getFrameCount(), seconds: recorder.getElapsed() / 1000 });
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording, recorderRef]);
+
+  // Stop recording if the source goes away mid-recording
+  useEffect(() => {
+    if (disabled && recorderRef.current) {
+      setLastSession(recorderRef.current.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+    }
+  }, [disabled, recorderRef]);
+
+  const startRecording = () => {
+    const video = videoRef.current;
+    recorderRef.current = createSessionRecorder(video?.videoWidth || 640, video?.videoHeight || 480, mirrored);
+    setStats({ frames: 0, seconds: 0 });
+    setLastSession(null);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (recorder) {
+      setLastSession(recorder.stop());
+    }
+  };
+
+  const downloadSession = (format: 'json' | 'ndjson') => {
+    if (!lastSession) return;
+
+    const content = serializeSession(lastSession, format);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `landmark-session-${Date.now()}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={isRecording ? stopRecording : startRecording}
+        disabled={disabled}
+        className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all border ${
+          isRecording
+            ? 'bg-red-600 text-white border-red-500 shadow-lg shadow-red-500/25'
+            : disabled
+            ? 'bg-gray-800 text-gray-600 border-gray-700 cursor-not-allowed opacity-50'
+            : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700 hover:text-white'
+        }`}
+        title="Record hand / face / body landmarks"
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${isRecording ? 'bg-white animate-pulse' : 'bg-red-500'}`}></span>
+        {isRecording ? `Stop (${stats.seconds.toFixed(1)}s · ${stats.frames})` : 'Record'}
+      </button>
+
+      {!isRecording && lastSession && (
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-gray-400">{lastSession.frames.length} frames</span>
+          <button
+            onClick={() => downloadSession('json')}
+            className="px-2 py-1 bg-emerald-600 hover:bg-emerald-500 text-white rounded"
+          >
+            JSON
+          </button>
+          <button
+            onClick={() => downloadSession('ndjson')}
+            className="px-2 py-1 bg-emerald-600 hover:bg-emerald-500 text-white rounded"
+          >
+            NDJSON
+          </button>
+          <button
+            onClick={() => onReplay(lastSession, 'Last recording')}
+            disabled={lastSession.frames.length === 0}
+            className="px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded"
+          >
+            Replay
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionRecorder;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { SmoothingMethod, SmoothingOptions } from '../types';
+
+interface SmoothingSettingsProps {
+  options: SmoothingOptions;
+  onChange: (options: SmoothingOptions) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm";
+
+const METHODS: [SmoothingMethod, string][] = [
+  ['none', 'Latest'],
+  ['majority', 'Majority'],
+  ['ema', 'Average']
+];
+
+/**
+ * 結果平滑設定：投票 / 指數平均、最短維持時間、遲滯
+ */
+const SmoothingSettings: React.FC<SmoothingSettingsProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<SmoothingOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
+        {METHODS.map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => update({ method: value })}
+            className={`flex-1 px-3 py-1 rounded-md text-xs font-medium transition-all ${
+              options.method === value
+                ? 'bg-indigo-600 text-white shadow-sm'
+                : 'text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {options.method === 'majority' && (
+          <div>
+            <label className="text-xs text-gray-500">Window</label>
+            <input
+              type="number"
+              min={1}
+              value={options.window}
+              onChange={(e) => update({ window: Math.max(1, Math.floor(Number(e.target.value))) })}
+              className={inputClass}
+              title="Number of recent results that vote"
+            />
+          </div>
+        )}
+        {options.method === 'ema' && (
+          <div>
+            <label className="text-xs text-gray-500">New weight</label>
+            <input
+              type="number"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={options.alpha}
+              onChange={(e) => update({ alpha: Math.min(1, Math.max(0.05, Number(e.target.value))) })}
+              className={inputClass}
+              title="Share of the newest result in the average - lower is smoother but slower"
+            />
+          </div>
+        )}
+        <div>
+          <label className="text-xs text-gray-500">Min hold (ms)</label>
+          <input
+            type="number"
+            min={0}
+            step={50}
+            value={options.minHoldMs}
+            onChange={(e) => update({ minHoldMs: Math.max(0, Number(e.target.value)) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Hysteresis %</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(options.hysteresis * 100)}
+            onChange={(e) => update({ hysteresis: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+            className={inputClass}
+            title="How much a new label has to beat the current one by"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        A new label is reported once it wins for long enough - steadier combination rules at the cost of a little delay.
+      </p>
+    </div>
+  );
+};
+
+export default SmoothingSettings;
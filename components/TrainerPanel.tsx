@@ -0,0 +1,874 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TrainerState } from '../hooks/useTrainer';
+import { useAutoCapture, AutoCaptureSettings, DEFAULT_AUTO_CAPTURE_SETTINGS } from '../hooks/useAutoCapture';
+import { TrainingScheduleOptions, MonitoredMetric, LearningRateSchedule } from '../utils/trainingSchedule';
+import TrainingChart from './TrainingChart';
+import DatasetBrowser from './DatasetBrowser';
+import ArchitectureEditor from './ArchitectureEditor';
+import EvaluationReport from './EvaluationReport';
+import CsvImportReport from './CsvImportReport';
+import CsvMergeDialog from './CsvMergeDialog';
+import KnnSettings from './KnnSettings';
+import RejectionSettings from './RejectionSettings';
+import SmoothingSettings from './SmoothingSettings';
+import RegressionTargets from './RegressionTargets';
+import { TrainerTask, formatTargetLabel } from '../utils/regression';
+import { RejectionOptions, REJECTION_REASONS } from '../utils/openSet';
+
+interface TrainerPanelProps {
+  title: string;
+  trainer: TrainerState;
+  labelPlaceholder: string;
+  modelName: string;
+  csvFileName: string;
+  headerExtras?: React.ReactNode;
+}
+
+/**
+ * 共用的訓練器介面 (Gesture / Face / Body)
+ * 狀態與邏輯都在 useTrainer，這裡只負責畫面與檔案選擇
+ */
+const TrainerPanel: React.FC<TrainerPanelProps> = ({
+  title,
+  trainer,
+  labelPlaceholder,
+  modelName,
+  csvFileName,
+  headerExtras
+}) => {
+  const {
+    labels,
+    dataCounts,
+    totalSamples,
+    sampleCount,
+    trainingLogs,
+    trainingMarkers,
+    isTraining,
+    isEvaluating,
+    isTrained,
+    isReady,
+    evaluation,
+    regressionEvaluation,
+    csvReport,
+    pendingImport,
+    isLoading,
+    classificationResult,
+    confidence,
+    personResults,
+    matchDistance,
+    rejection,
+    clipProgress,
+    clipError,
+    backend,
+    matchThreshold,
+    minConfidence,
+    backgroundLabel,
+    task,
+    targets,
+    targetValues,
+    regressionValues,
+    epochs,
+    batchSize,
+    learningRate,
+    validationSplit,
+    schedule,
+    fineTune,
+    setEpochs,
+    setBatchSize,
+    setLearningRate,
+    setValidationSplit,
+    setFineTune,
+    setBackend,
+    setMatchThreshold,
+    setMinConfidence,
+    setBackgroundLabel,
+    collectData,
+    trainModel,
+    exportCSV,
+    clearWorkspace
+  } = trainer;
+
+  const sequence = trainer.extractor.sequence;
+  const [newLabel, setNewLabel] = useState('');
+  const [captureSettings, setCaptureSettings] = useState<AutoCaptureSettings>(DEFAULT_AUTO_CAPTURE_SETTINGS);
+  const { capture, startHold, startBurst, stop: stopCapture } = useAutoCapture(collectData, captureSettings);
+
+  // Samples from the previous extractor would be dropped anyway - stop capturing
+  useEffect(() => {
+    stopCapture();
+  }, [trainer.extractor.id, stopCapture]);
+
+  // File input ref for loading model
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSchedule = (changes: Partial<TrainingScheduleOptions>) => {
+    trainer.setSchedule({ ...schedule, ...changes });
+  };
+
+  const handleAddLabel = () => {
+    if (trainer.addLabel(newLabel)) {
+      setNewLabel('');
+    }
+  };
+
+  const handleSaveModel = () => {
+    const name = prompt("Enter model name (will trigger download):", modelName);
+    if (name) {
+      trainer.saveModel(name);
+    }
+  };
+
+  const handleLoadModel = () => {
+    fileInputRef.current?.click();
+  };
+
+  const onFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      trainer.loadModel(Array.from(files));
+    }
+
+    // Reset file input
+    e.target.value = '';
+  };
+
+  const handleImportCSV = () => {
+    csvInputRef.current?.click();
+  };
+
+  const onCSVSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      trainer.importCSV(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleTaskChange = (value: TrainerTask) => {
+    if (value === task) return;
+    if (sampleCount > 0 && !confirm(`Switching to ${value} starts an empty workspace - ${sampleCount} sample(s) and the trained model will be cleared. Continue?`)) return;
+    stopCapture();
+    trainer.setTask(value);
+  };
+
+  // + Data / Hold / Burst - one row per class, or once for the current regression target values
+  const renderCaptureButtons = (label: string) => (
+    <div className="flex gap-1">
+      <button
+        onClick={() => collectData(label)}
+        className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs px-2 py-1 rounded font-medium transition-colors"
+        disabled={isTraining || !!capture || clipProgress !== null}
+        title={sequence ? `Record a ${(sequence.frames * sequence.frameInterval / 1000).toFixed(1)}s clip` : undefined}
+      >
+        {sequence ? '+ Clip' : '+ Data'}
+      </button>
+      <button
+        onPointerDown={() => startHold(label)}
+        onPointerUp={stopCapture}
+        onPointerCancel={stopCapture}
+        onPointerLeave={() => capture?.mode === 'hold' && stopCapture()}
+        className={`text-white text-xs px-2 py-1 rounded font-medium transition-colors select-none ${
+          capture?.mode === 'hold' && capture.label === label ? 'bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
+        }`}
+        disabled={isTraining || (!!capture && capture.mode !== 'hold')}
+        title="Hold to record continuously"
+      >
+        Hold
+      </button>
+      <button
+        onClick={() => startBurst(label)}
+        className="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded font-medium transition-colors"
+        disabled={isTraining || !!capture}
+        title={`Wait ${captureSettings.delay}s, then record ${captureSettings.count} samples`}
+      >
+        ⏱ Burst
+      </button>
+    </div>
+  );
+
+  const updateRejection = (options: RejectionOptions) => {
+    setMinConfidence(options.minConfidence);
+    setMatchThreshold(options.maxDistance);
+    setBackgroundLabel(options.backgroundLabel);
+  };
+
+  const handleAddBackgroundClass = (label: string) => {
+    trainer.addLabel(label);
+    setBackgroundLabel(label);
+  };
+
+  const isRegression = task === 'regression';
+  const canTrain = isRegression ? totalSamples >= 2 : labels.length >= 2 && totalSamples >= 2;
+
+  // The Unknown Detection panel unmounts in regression mode without a toggle event
+  useEffect(() => {
+    if (isRegression) trainer.setShowDistance(false);
+  }, [isRegression]);
+
+  const handleClearWorkspace = () => {
+    if (!confirm(`Clear all classes, ${sampleCount} sample(s) and the trained model? This cannot be undone.`)) return;
+    clearWorkspace();
+  };
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700 rounded-xl overflow-hidden shadow-2xl flex flex-col">
+      
+      {/* Header with Prediction Result */}
+      <div className="bg-gray-800 p-4 border-b border-gray-700 flex-none">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">{title}</h3>
+          {isReady && (
+            <span className="text-xs bg-green-600/20 text-green-400 px-2 py-1 rounded">
+              {backend === 'neuralNetwork' ? 'Model Ready' : backend === 'knn' ? 'KNN Ready' : 'Templates Ready'}
+            </span>
+          )}
+        </div>
+
+        {headerExtras}
+        
+        {/* Prediction Banner */}
+        <div className="bg-gray-900 rounded-lg p-4 text-center border border-gray-700">
+          {isReady && isRegression ? (
+            <>
+              <p className="text-gray-500 text-xs mb-2">Outputs</p>
+              <div className="space-y-1.5 text-left">
+                {targets.map((target, i) => {
+                  const value = regressionValues?.[i];
+                  const ratio = value === undefined ? 0 : (value - target.min) / ((target.max - target.min) || 1);
+                  return (
+                    <div key={i} className="flex items-center gap-2 text-xs">
+                      <span className="w-20 truncate text-gray-300">{target.name}</span>
+                      <div className="flex-1 h-2 bg-gray-700 rounded overflow-hidden">
+                        <div className="h-full bg-gradient-to-r from-green-400 to-blue-500" style={{ width: `${Math.min(1, Math.max(0, ratio)) * 100}%` }} />
+                      </div>
+                      <span className="w-12 text-right font-mono text-white">{value === undefined ? '-' : value.toFixed(2)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              {backend !== 'neuralNetwork' && matchDistance !== null && (
+                <div className="mt-1 text-xs text-gray-500">Distance: {matchDistance.toFixed(3)}</div>
+              )}
+            </>
+          ) : isReady ? (
+            <>
+              <p className="text-gray-500 text-xs mb-1">Prediction</p>
+              <h2 className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-blue-500">
+                {classificationResult || "Waiting..."}
+              </h2>
+              {classificationResult && (
+                <div className="mt-1 text-xs text-gray-500">
+                  {rejection
+                    ? `Closest: ${rejection.candidate.label} ${(rejection.candidate.confidence * 100).toFixed(1)}% · ${REJECTION_REASONS[rejection.reason]}`
+                    : `Confidence: ${(confidence * 100).toFixed(1)}%`}
+                  {matchDistance !== null && ` · Distance: ${matchDistance.toFixed(3)}`}
+                </div>
+              )}
+              {/* Multi-person: the banner shows the lowest id, list everyone */}
+              {personResults.length > 1 && (
+                <div className="mt-2 flex flex-wrap justify-center gap-1.5 text-xs">
+                  {personResults.map(person => (
+                    <span key={person.id} className="bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-gray-300">
+                      <span className="text-gray-500">P{person.id}</span> {person.label} {(person.confidence * 100).toFixed(0)}%
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500 text-sm italic">
+              {backend === 'neuralNetwork' ? 'Train or load a model to see predictions' : 'Collect samples to start predicting'}
+            </p>
+          )}
+        </div>
+      </div>
+      
+      {/* Scrollable Content */}
+      <div className="overflow-y-auto p-4 space-y-4 flex-none max-h-[400px]">
+        
+        {/* Task */}
+        <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
+          {([['classification', 'Classification'], ['regression', 'Regression']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => handleTaskChange(value)}
+              disabled={isTraining || isLoading}
+              className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                task === value
+                  ? 'bg-indigo-600 text-white shadow-sm'
+                  : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Add Class */}
+        {!isRegression && (
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Add New Class</label>
+            <div className="flex gap-2">
+              <input 
+                type="text" 
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder={labelPlaceholder}
+                className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button 
+                onClick={handleAddLabel}
+                disabled={!newLabel}
+                className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg font-medium transition-colors text-sm"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Class List & Data Collection */}
+        <div className="space-y-2">
+          {isRegression ? (
+            <>
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Targets ({targets.length})</label>
+              <RegressionTargets
+                targets={targets}
+                values={targetValues}
+                onTargetsChange={trainer.setTargets}
+                onValuesChange={trainer.setTargetValues}
+                canEditTargets={sampleCount === 0 && !isTraining}
+                captureButtons={renderCaptureButtons(formatTargetLabel(targetValues))}
+              />
+            </>
+          ) : (
+            <>
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Classes ({labels.length})</label>
+              <div className="space-y-2 max-h-32 overflow-y-auto">
+                {labels.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500 text-sm border border-dashed border-gray-700 rounded-lg">
+                    Add classes above to start
+                  </div>
+                ) : (
+                  labels.map(label => (
+                    <div key={label} className="bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-700">
+                      <div>
+                        <span className="font-medium text-white text-sm">{label}</span>
+                        <span className="text-xs text-indigo-400 ml-2">({dataCounts[label] || 0})</span>
+                    {label === backgroundLabel && <span className="text-xs text-gray-500 ml-2" title="Predicted as unknown">background</span>}
+                      </div>
+                      {renderCaptureButtons(label)}
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Sequence mode: clip being recorded */}
+          {clipProgress !== null && (
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-2 space-y-1">
+              <span className="text-sm text-white">● Recording clip... perform the motion now</span>
+              <div className="h-1.5 bg-gray-700 rounded overflow-hidden">
+                <div className="h-full bg-red-500 transition-all" style={{ width: `${clipProgress * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {clipError && (
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-2 flex items-center justify-between gap-2">
+              <span className="text-xs text-red-300">⚠️ {clipError}</span>
+              <button
+                onClick={trainer.dismissClipError}
+                className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+
+          {/* Live capture status */}
+          {capture && (
+            <div className="bg-indigo-900/40 border border-indigo-700 rounded-lg p-2 flex items-center justify-between">
+              <span className="text-sm text-white">
+                {capture.phase === 'countdown'
+                  ? <>Get ready for <b>{capture.label}</b>... {capture.countdown}</>
+                  : <>● Recording <b>{capture.label}</b>: {capture.captured}{capture.target !== null ? ` / ${capture.target}` : ''}</>}
+              </span>
+              <button
+                onClick={stopCapture}
+                className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Dataset Browser - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Dataset ({sampleCount})
+          </summary>
+          <div className="mt-2">
+            <DatasetBrowser trainer={trainer} />
+          </div>
+        </details>
+
+        {/* Auto Capture Settings - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Auto Capture
+          </summary>
+          <div className="grid grid-cols-3 gap-2 mt-2">
+            <div>
+              <label className="text-xs text-gray-500">Delay (s)</label>
+              <input 
+                type="number" 
+                min={0}
+                value={captureSettings.delay} 
+                onChange={(e) => setCaptureSettings(prev => ({ ...prev, delay: Number(e.target.value) }))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Samples</label>
+              <input 
+                type="number" 
+                min={1}
+                value={captureSettings.count} 
+                onChange={(e) => setCaptureSettings(prev => ({ ...prev, count: Number(e.target.value) }))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Interval (ms)</label>
+              <input 
+                type="number" 
+                min={30}
+                step={10}
+                value={captureSettings.interval} 
+                onChange={(e) => setCaptureSettings(prev => ({ ...prev, interval: Number(e.target.value) }))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+          </div>
+        </details>
+
+        {/* Unknown Detection - Collapsible */}
+        {!isRegression && (
+          <details className="group" onToggle={(e) => trainer.setShowDistance(e.currentTarget.open)}>
+            <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+              <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              Unknown Detection
+            </summary>
+            <div className="mt-2">
+              <RejectionSettings
+                options={{ minConfidence, maxDistance: matchThreshold, backgroundLabel }}
+                labels={labels}
+                distance={matchDistance}
+                onChange={updateRejection}
+                onAddBackgroundClass={handleAddBackgroundClass}
+              />
+            </div>
+          </details>
+        )}
+
+        {/* Smoothing - Collapsible */}
+        {!isRegression && (
+          <details className="group">
+            <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+              <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              Smoothing
+            </summary>
+            <div className="mt-2">
+              <SmoothingSettings options={trainer.smoothing} onChange={trainer.setSmoothing} />
+            </div>
+          </details>
+        )}
+
+        {/* Training Settings - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Training Settings
+          </summary>
+          <div className="grid grid-cols-4 gap-2 mt-2">
+            <div>
+              <label className="text-xs text-gray-500">Epochs</label>
+              <input 
+                type="number" 
+                value={epochs} 
+                onChange={(e) => setEpochs(Number(e.target.value))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Batch</label>
+              <input 
+                type="number" 
+                value={batchSize} 
+                onChange={(e) => setBatchSize(Number(e.target.value))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">LR</label>
+              <input 
+                type="number" 
+                step="0.01"
+                value={learningRate} 
+                onChange={(e) => setLearningRate(Number(e.target.value))}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Val %</label>
+              <input 
+                type="number" 
+                min={0}
+                max={50}
+                step={5}
+                value={Math.round(validationSplit * 100)} 
+                onChange={(e) => setValidationSplit(Math.min(50, Math.max(0, Number(e.target.value))) / 100)}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                title="Share of each class held out to measure accuracy after training"
+              />
+            </div>
+          </div>
+
+          {/* Early Stopping */}
+          <div className="mt-3 space-y-2">
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={schedule.earlyStopping}
+                onChange={(e) => updateSchedule({ earlyStopping: e.target.checked })}
+              />
+              Early stopping
+            </label>
+            {schedule.earlyStopping && (
+              <div className="grid grid-cols-3 gap-2 items-end">
+                <div>
+                  <label className="text-xs text-gray-500">Monitor</label>
+                  <select
+                    value={schedule.monitor}
+                    onChange={(e) => updateSchedule({ monitor: e.target.value as MonitoredMetric })}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  >
+                    <option value="val_loss">val loss</option>
+                    <option value="val_acc">val acc</option>
+                    <option value="loss">loss</option>
+                    <option value="acc">acc</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">Patience</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={schedule.patience}
+                    onChange={(e) => updateSchedule({ patience: Number(e.target.value) })}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+                <label className="flex items-center gap-1 text-xs text-gray-400 pb-1.5">
+                  <input
+                    type="checkbox"
+                    checked={schedule.restoreBestWeights}
+                    onChange={(e) => updateSchedule({ restoreBestWeights: e.target.checked })}
+                  />
+                  Restore best
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Learning Rate Schedule */}
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            <div>
+              <label className="text-xs text-gray-500">LR schedule</label>
+              <select
+                value={schedule.lrSchedule}
+                onChange={(e) => updateSchedule({ lrSchedule: e.target.value as LearningRateSchedule })}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+              >
+                <option value="constant">Constant</option>
+                <option value="step">Step decay</option>
+                <option value="cosine">Cosine</option>
+              </select>
+            </div>
+            {schedule.lrSchedule === 'step' && (
+              <>
+                <div>
+                  <label className="text-xs text-gray-500">Every (epochs)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={schedule.stepSize}
+                    onChange={(e) => updateSchedule({ stepSize: Number(e.target.value) })}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">× Factor</label>
+                  <input
+                    type="number"
+                    step="0.05"
+                    min={0}
+                    max={1}
+                    value={schedule.decayRate}
+                    onChange={(e) => updateSchedule({ decayRate: Number(e.target.value) })}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+              </>
+            )}
+            {schedule.lrSchedule === 'cosine' && (
+              <div>
+                <label className="text-xs text-gray-500">Min LR</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min={0}
+                  value={schedule.minLearningRate}
+                  onChange={(e) => updateSchedule({ minLearningRate: Number(e.target.value) })}
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                />
+              </div>
+            )}
+          </div>
+        </details>
+
+        {/* Network Architecture - Collapsible */}
+        <details className="group">
+          <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer flex items-center gap-2">
+            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Network Architecture
+          </summary>
+          <div className="mt-2">
+            <ArchitectureEditor
+              layers={trainer.architecture}
+              onChange={trainer.setArchitecture}
+              inputSize={trainer.extractor.inputSize}
+              outputSize={isRegression ? targets.length : labels.length}
+              task={task}
+              disabled={isTraining}
+            />
+          </div>
+        </details>
+
+        {/* Training Chart */}
+        {trainingLogs.length > 0 && (
+          <TrainingChart trainingLogs={trainingLogs} maxEpochs={epochs} markers={trainingMarkers} />
+        )}
+
+        {/* Validation Report */}
+        {evaluation && !isTraining && (
+          <EvaluationReport evaluation={evaluation} />
+        )}
+        {regressionEvaluation && !isTraining && (
+          <div className="bg-gray-800 rounded-lg p-3 border border-gray-700 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Validation MAE</span>
+              <span className="text-xs text-gray-500">{regressionEvaluation.count} held out · {regressionEvaluation.trainCount} trained</span>
+            </div>
+            {regressionEvaluation.targets.map((name, i) => {
+              const target = targets.find(t => t.name === name);
+              const range = target ? target.max - target.min : 0;
+              return (
+                <div key={name} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-300">{name}</span>
+                  <span className="font-mono text-white">
+                    {regressionEvaluation.mae[i].toFixed(3)}
+                    {range > 0 && <span className="text-gray-500"> ({(regressionEvaluation.mae[i] / range * 100).toFixed(1)}% of range)</span>}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* CSV Merge - shown when importing into a non-empty dataset */}
+        {pendingImport && (
+          <CsvMergeDialog
+            pending={pendingImport}
+            existingSamples={trainer.samples}
+            existingLabels={labels}
+            onApply={trainer.applyImport}
+            onCancel={trainer.cancelImport}
+          />
+        )}
+
+        {/* CSV Import Report */}
+        {csvReport && (
+          <CsvImportReport report={csvReport} onDismiss={trainer.dismissCsvReport} />
+        )}
+      </div>
+
+      {/* Footer Actions */}
+      <div className="p-4 border-t border-gray-700 bg-gray-800 space-y-2 flex-none">
+        {/* Classifier Backend */}
+        <div className="bg-gray-900 rounded-lg p-1 flex items-center border border-gray-700">
+          {([['neuralNetwork', 'Neural Network'], ['knn', 'KNN'], ['templates', 'Templates']] as const)
+            .filter(([value]) => !(isRegression && value === 'templates')) // templates only vote on labels
+            .map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setBackend(value)}
+                disabled={isTraining}
+                className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                  backend === value
+                    ? 'bg-indigo-600 text-white shadow-sm'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+        </div>
+
+        {backend === 'knn' ? (
+          <KnnSettings options={trainer.knn} labels={isRegression ? [] : labels} dataCounts={dataCounts} onChange={trainer.setKnn} />
+        ) : backend === 'templates' ? (
+          /* Template Matching - every sample is a template, nothing to train */
+          <p className="text-xs text-gray-500">
+            {trainer.extractor.sequence ? 'Clips are aligned with dynamic time warping. ' : 'Nearest sample wins. '}
+            Set a max distance under Unknown Detection to reject poses that match no template.
+          </p>
+        ) : (
+          /* Train Model Button with Info */
+          <div className="space-y-1">
+            {isTrained && !isRegression && (
+              <label className="flex items-center gap-2 text-xs text-gray-400" title="Start from the current weights instead of a new random network (same classes only)">
+                <input
+                  type="checkbox"
+                  checked={fineTune}
+                  onChange={(e) => setFineTune(e.target.checked)}
+                  disabled={isTraining}
+                />
+                Fine-tune current model
+              </label>
+            )}
+            <button
+              onClick={trainModel}
+              disabled={
+                isTraining || 
+                isLoading || 
+                !!capture || 
+                !canTrain
+              }
+              className={`w-full py-2.5 rounded-lg font-bold text-white transition-all text-sm ${
+                isTraining ? 'bg-gray-600 cursor-wait' : 
+                !canTrain
+                  ? 'bg-gray-700 opacity-50 cursor-not-allowed' 
+                  : 'bg-green-600 hover:bg-green-500'
+              }`}
+            >
+              {isEvaluating ? 'Evaluating...' : isTraining ? 'Training...' : isTrained && fineTune && !isRegression ? 'Fine-tune Model' : 'Train Model'}
+            </button>
+            {!isRegression && labels.length < 2 && (
+              <p className="text-xs text-amber-400 text-center">⚠️ Add at least 2 classes to train</p>
+            )}
+            {(isRegression || labels.length >= 2) && totalSamples < 2 && (
+              <p className="text-xs text-amber-400 text-center">⚠️ Collect at least 2 data samples to train</p>
+            )}
+          </div>
+        )}
+        
+        <div className="flex gap-2">
+          {isTrained && (
+            <button
+              onClick={handleSaveModel}
+              className="flex-1 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-medium transition-colors text-sm"
+            >
+              Save
+            </button>
+          )}
+          
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".json,.bin"
+            onChange={onFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={handleLoadModel}
+            disabled={isTraining || isLoading}
+            className={`flex-1 py-2 rounded-lg font-medium text-white transition-colors text-sm flex items-center justify-center gap-1 ${
+              isLoading ? 'bg-gray-600 cursor-wait' : 'bg-blue-600 hover:bg-blue-500'
+            }`}
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            {isLoading ? 'Loading...' : 'Load'}
+          </button>
+        </div>
+
+        {/* CSV Import/Export */}
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportCSV(csvFileName)}
+            disabled={sampleCount === 0}
+            className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-1"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Export CSV
+          </button>
+
+          <input
+            ref={csvInputRef}
+            type="file"
+            accept=".csv"
+            onChange={onCSVSelected}
+            className="hidden"
+          />
+          <button
+            onClick={handleImportCSV}
+            disabled={isTraining || isLoading}
+            className="flex-1 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-1"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+            </svg>
+            Import CSV
+          </button>
+        </div>
+
+        {/* Autosave */}
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>💾 Autosaved in this browser</span>
+          <button
+            onClick={handleClearWorkspace}
+            disabled={isTraining || isLoading || (sampleCount === 0 && labels.length === 0 && !isTrained)}
+            className="text-red-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Clear workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrainerPanel;
@@ -1,11 +1,37 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import { TrainingLog, TrainingMarker } from '../types';
 
 interface TrainingChartProps {
-  trainingLogs: { epoch: number; loss: number }[];
+  trainingLogs: TrainingLog[];
   maxEpochs?: number;
+  markers?: TrainingMarker[];
 }
 
-const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs = 100 }) => {
+type SeriesKey = 'loss' | 'valLoss' | 'acc' | 'valAcc';
+
+interface SeriesConfig {
+  key: SeriesKey;
+  label: string;
+  color: string;
+  axis: 'loss' | 'acc';
+  dashed: boolean;
+}
+
+// Loss 用左側座標軸，Accuracy 固定 0~1 用右側座標軸
+const SERIES: SeriesConfig[] = [
+  { key: 'loss', label: 'loss', color: '#3B82F6', axis: 'loss', dashed: false },
+  { key: 'valLoss', label: 'val loss', color: '#F472B6', axis: 'loss', dashed: true },
+  { key: 'acc', label: 'acc', color: '#22C55E', axis: 'acc', dashed: false },
+  { key: 'valAcc', label: 'val acc', color: '#FACC15', axis: 'acc', dashed: true }
+];
+
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value) && isFinite(value);
+
+const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs = 100, markers = [] }) => {
+  const [hidden, setHidden] = useState<Set<SeriesKey>>(new Set());
+  const [hoverEpoch, setHoverEpoch] = useState<number | null>(null);
+
   const { chartData, maxLoss, minLoss } = useMemo(() => {
     if (trainingLogs.length === 0) {
       return { chartData: [], maxLoss: 2, minLoss: 0 };
@@ -13,34 +39,24 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
 
     // Sort by epoch and filter out invalid data (NaN, undefined, null)
     const sorted = [...trainingLogs]
-      .filter(log => {
-        return (
-          log &&
-          typeof log.epoch === 'number' &&
-          typeof log.loss === 'number' &&
-          !isNaN(log.epoch) &&
-          !isNaN(log.loss) &&
-          isFinite(log.epoch) &&
-          isFinite(log.loss)
-        );
-      })
+      .filter(log => log && isValidNumber(log.epoch) && isValidNumber(log.loss))
       .sort((a, b) => a.epoch - b.epoch);
-    
+
     // If no valid data after filtering, return defaults
     if (sorted.length === 0) {
       return { chartData: [], maxLoss: 2, minLoss: 0 };
     }
-    
-    // Find min and max loss for scaling
-    const losses = sorted.map(log => log.loss);
+
+    // Find min and max loss (training + validation) for scaling
+    const losses = sorted.flatMap(log => [log.loss, log.valLoss].filter(isValidNumber));
     const max = Math.max(...losses);
     const min = Math.min(...losses);
-    
+
     // Add some padding to the range
     const range = max - min;
     const paddedMax = max + range * 0.1;
     const paddedMin = Math.max(0, min - range * 0.1);
-    
+
     return {
       chartData: sorted,
       maxLoss: paddedMax || 2,
@@ -48,6 +64,13 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
     };
   }, [trainingLogs]);
 
+  // Only offer series that actually have data
+  const availableSeries = useMemo(
+    () => SERIES.filter(series => chartData.some(log => isValidNumber(log[series.key]))),
+    [chartData]
+  );
+  const hasAccuracy = availableSeries.some(series => series.axis === 'acc');
+
   // Chart dimensions
   const width = 480;
   const height = 240;
@@ -64,38 +87,47 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
     // Ensure valid numbers and avoid division by zero
     if (!isFinite(loss) || isNaN(loss)) return height - padding.bottom;
     if (maxLoss === minLoss) return height - padding.bottom - chartHeight / 2;
-    
+
     const normalized = (loss - minLoss) / (maxLoss - minLoss);
     return height - padding.bottom - normalized * chartHeight;
   };
 
-  // Generate path for line chart
-  const linePath = useMemo(() => {
-    if (chartData.length === 0) return '';
-    
-    const points = chartData.map((log, i) => {
-      const x = scaleX(log.epoch);
-      const y = scaleY(log.loss);
-      return i === 0 ? `M ${x} ${y}` : `L ${x} ${y}`;
+  const scaleAcc = (acc: number) => {
+    if (!isFinite(acc) || isNaN(acc)) return height - padding.bottom;
+    return height - padding.bottom - Math.min(1, Math.max(0, acc)) * chartHeight;
+  };
+
+  const scaleSeries = (series: SeriesConfig, value: number) =>
+    series.axis === 'acc' ? scaleAcc(value) : scaleY(value);
+
+  // Generate one path per series
+  const seriesPaths = useMemo(() => {
+    return availableSeries.map(series => {
+      const points = chartData
+        .filter(log => isValidNumber(log[series.key]))
+        .map((log, i) => {
+          const x = scaleX(log.epoch);
+          const y = scaleSeries(series, log[series.key] as number);
+          return i === 0 ? `M ${x} ${y}` : `L ${x} ${y}`;
+        });
+      return { series, path: points.join(' ') };
     });
-    
-    return points.join(' ');
-  }, [chartData, maxLoss, minLoss, maxEpochs]);
+  }, [chartData, availableSeries, maxLoss, minLoss, maxEpochs]);
 
-  // Generate gradient area path
+  // Generate gradient area path (training loss)
   const areaPath = useMemo(() => {
     if (chartData.length === 0) return '';
-    
+
     const points = chartData.map((log) => {
       const x = scaleX(log.epoch);
       const y = scaleY(log.loss);
       return `${x},${y}`;
     });
-    
+
     const firstX = scaleX(chartData[0].epoch);
     const lastX = scaleX(chartData[chartData.length - 1].epoch);
     const bottom = height - padding.bottom;
-    
+
     return `M ${firstX} ${bottom} L ${points.join(' L ')} L ${lastX} ${bottom} Z`;
   }, [chartData, maxLoss, minLoss, maxEpochs]);
 
@@ -123,6 +155,35 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
     return ticks;
   }, [maxEpochs]);
 
+  const toggleSeries = (key: SeriesKey) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Snap hover position to the nearest logged epoch
+  const onMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    if (chartData.length === 0) return;
+    const svg = e.currentTarget.ownerSVGElement;
+    if (!svg) return;
+
+    const rect = svg.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * width;
+    const epoch = ((x - padding.left) / chartWidth) * maxEpochs;
+
+    let nearest = chartData[0];
+    chartData.forEach(log => {
+      if (Math.abs(log.epoch - epoch) < Math.abs(nearest.epoch - epoch)) nearest = log;
+    });
+    setHoverEpoch(nearest.epoch);
+  };
+
+  const hoverLog = hoverEpoch !== null ? chartData.find(log => log.epoch === hoverEpoch) : undefined;
+  const latest = chartData[chartData.length - 1];
+
   if (trainingLogs.length === 0) {
     return (
       <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 flex items-center justify-center h-64">
@@ -134,7 +195,7 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
   return (
     <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
       <h4 className="text-sm font-semibold text-gray-300 mb-2">Training Performance</h4>
-      
+
       <svg width={width} height={height} className="w-full" viewBox={`0 0 ${width} ${height}`}>
         <defs>
           <linearGradient id="lossGradient" x1="0%" y1="0%" x2="0%" y2="100%">
@@ -142,13 +203,13 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
             <stop offset="100%" stopColor="rgba(59, 130, 246, 0.05)" />
           </linearGradient>
         </defs>
-        
+
         {/* Grid lines */}
         {yTicks.map((tick, i) => {
           const yPos = scaleY(tick);
           // Only render if position is valid
           if (!isFinite(yPos) || isNaN(yPos)) return null;
-          
+
           return (
             <g key={`grid-${i}`}>
               <line
@@ -189,7 +250,7 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
           const yPos = scaleY(tick);
           // Only render if position is valid
           if (!isFinite(yPos) || isNaN(yPos)) return null;
-          
+
           return (
             <text
               key={`y-label-${i}`}
@@ -205,6 +266,21 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
           );
         })}
 
+        {/* Right Y-axis labels (accuracy) */}
+        {hasAccuracy && [0, 0.5, 1].map(tick => (
+          <text
+            key={`acc-label-${tick}`}
+            x={width - padding.right + 6}
+            y={scaleAcc(tick)}
+            textAnchor="start"
+            dominantBaseline="middle"
+            fill="#22C55E"
+            fontSize="11"
+          >
+            {Math.round(tick * 100)}%
+          </text>
+        ))}
+
         {/* X-axis labels */}
         {xTicks.map((tick, i) => (
           <text
@@ -244,55 +320,60 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
           Loss
         </text>
 
-        {/* Area under the curve */}
-        {areaPath && (
+        {/* Area under the training loss curve */}
+        {areaPath && !hidden.has('loss') && (
           <path
             d={areaPath}
             fill="url(#lossGradient)"
           />
         )}
 
-        {/* Line chart */}
-        {linePath && (
-          <path
-            d={linePath}
-            fill="none"
-            stroke="#3B82F6"
-            strokeWidth="3"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-        )}
-
-        {/* Data points */}
-        {chartData.map((log, i) => {
-          const x = scaleX(log.epoch);
-          const y = scaleY(log.loss);
-          // Only render if coordinates are valid
-          if (!isFinite(x) || !isFinite(y) || isNaN(x) || isNaN(y)) return null;
-          
+        {/* Event markers (e.g. early stopping) */}
+        {markers.map((marker, i) => {
+          const x = scaleX(marker.epoch);
+          if (!isFinite(x)) return null;
           return (
-            <circle
-              key={`point-${i}`}
-              cx={x}
-              cy={y}
-              r="3"
-              fill="#3B82F6"
-              stroke="#1E3A8A"
-              strokeWidth="2"
-            />
+            <g key={`marker-${i}`}>
+              <line
+                x1={x}
+                y1={padding.top}
+                x2={x}
+                y2={height - padding.bottom}
+                stroke="#F59E0B"
+                strokeWidth="1.5"
+                strokeDasharray="3,3"
+              />
+              <text x={x + 4} y={padding.top + 10} fill="#F59E0B" fontSize="10">
+                {marker.label}
+              </text>
+            </g>
           );
         })}
 
+        {/* Line charts */}
+        {seriesPaths.map(({ series, path }) => (
+          !hidden.has(series.key) && path && (
+            <path
+              key={series.key}
+              d={path}
+              fill="none"
+              stroke={series.color}
+              strokeWidth={series.dashed ? 2 : 3}
+              strokeDasharray={series.dashed ? '6,4' : undefined}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )
+        ))}
+
         {/* Latest point highlight */}
-        {chartData.length > 0 && (() => {
-          const lastPoint = chartData[chartData.length - 1];
-          const x = scaleX(lastPoint.epoch);
-          const y = scaleY(lastPoint.loss);
-          
+        {latest && !hidden.has('loss') && (() => {
+          const x = scaleX(latest.epoch);
+          const y = scaleY(latest.loss);
+
           // Only render if coordinates are valid
           if (!isFinite(x) || !isFinite(y) || isNaN(x) || isNaN(y)) return null;
-          
+
           return (
             <circle
               cx={x}
@@ -311,28 +392,84 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
             </circle>
           );
         })()}
+
+        {/* Hover cursor */}
+        {hoverLog && (
+          <g pointerEvents="none">
+            <line
+              x1={scaleX(hoverLog.epoch)}
+              y1={padding.top}
+              x2={scaleX(hoverLog.epoch)}
+              y2={height - padding.bottom}
+              stroke="#9CA3AF"
+              strokeWidth="1"
+            />
+            {availableSeries.filter(series => !hidden.has(series.key) && isValidNumber(hoverLog[series.key])).map(series => (
+              <circle
+                key={series.key}
+                cx={scaleX(hoverLog.epoch)}
+                cy={scaleSeries(series, hoverLog[series.key] as number)}
+                r="4"
+                fill={series.color}
+                stroke="#111827"
+                strokeWidth="1.5"
+              />
+            ))}
+          </g>
+        )}
+
+        {/* Mouse capture area */}
+        <rect
+          x={padding.left}
+          y={padding.top}
+          width={chartWidth}
+          height={chartHeight}
+          fill="transparent"
+          onMouseMove={onMouseMove}
+          onMouseLeave={() => setHoverEpoch(null)}
+        />
       </svg>
 
-      {/* Legend */}
-      <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-            <span>loss</span>
-          </div>
-          {chartData.length > 0 && chartData[chartData.length - 1] && (
+      {/* Hover tooltip */}
+      <div className="h-5 text-xs text-gray-300 flex items-center gap-3">
+        {hoverLog && (
+          <>
+            <span className="text-gray-500">Epoch {hoverLog.epoch + 1}</span>
+            {availableSeries.filter(series => isValidNumber(hoverLog[series.key])).map(series => (
+              <span key={series.key} style={{ color: series.color }}>
+                {series.label}: {series.axis === 'acc'
+                  ? `${((hoverLog[series.key] as number) * 100).toFixed(1)}%`
+                  : (hoverLog[series.key] as number).toFixed(4)}
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Legend - click to toggle series */}
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+        <div className="flex items-center gap-3 flex-wrap">
+          {availableSeries.map(series => (
+            <button
+              key={series.key}
+              onClick={() => toggleSeries(series.key)}
+              className={`flex items-center gap-1.5 ${hidden.has(series.key) ? 'opacity-40 line-through' : ''}`}
+            >
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: series.color }}></div>
+              <span>{series.label}</span>
+            </button>
+          ))}
+          {latest && (
             <span>
               Latest: <span className="text-blue-400 font-semibold">
-                {isFinite(chartData[chartData.length - 1].loss) && !isNaN(chartData[chartData.length - 1].loss)
-                  ? chartData[chartData.length - 1].loss.toFixed(4)
-                  : 'N/A'}
+                {isValidNumber(latest.loss) ? latest.loss.toFixed(4) : 'N/A'}
               </span>
             </span>
           )}
         </div>
-        {chartData.length > 0 && chartData[chartData.length - 1] && (
+        {latest && (
           <span className="text-gray-500">
-            Epoch {chartData[chartData.length - 1].epoch + 1} / {maxEpochs}
+            Epoch {latest.epoch + 1} / {maxEpochs}
           </span>
         )}
       </div>
@@ -341,4 +478,3 @@ const TrainingChart: React.FC<TrainingChartProps> = ({ trainingLogs, maxEpochs =
 };
 
 export default TrainingChart;
-
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Auto-capture for trainer samples
+ *
+ * - Hold: 按住按鈕期間以固定間隔持續收集
+ * - Burst: 倒數 N 秒後自動收集指定數量的樣本（方便離開鍵盤擺姿勢）
+ */
+
+export interface AutoCaptureSettings {
+  delay: number;     // 倒數秒數
+  count: number;     // Burst 要收集的樣本數
+  interval: number;  // 兩次收集之間的間隔 (ms)
+}
+
+export interface AutoCaptureState {
+  mode: 'hold' | 'burst';
+  label: string;
+  phase: 'countdown' | 'capturing';
+  countdown: number;
+  captured: number;
+  target: number | null; // hold 模式沒有上限
+}
+
+export const DEFAULT_AUTO_CAPTURE_SETTINGS: AutoCaptureSettings = {
+  delay: 3,
+  count: 30,
+  interval: 100
+};
+
+/**
+ * @param collect - 收集一個樣本，沒有偵測到資料時回傳 false（不計入數量）
+ */
+export function useAutoCapture(collect: (label: string) => boolean, settings: AutoCaptureSettings) {
+  const [capture, setCapture] = useState<AutoCaptureState | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Timers must always call the latest collect (it closes over the current network)
+  const collectRef = useRef(collect);
+  collectRef.current = collect;
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const stop = useCallback(() => {
+    clearTimer();
+    setCapture(null);
+  }, []);
+
+  const startCapturing = (label: string, target: number | null) => {
+    const interval = Math.max(30, settings.interval);
+    let captured = 0;
+
+    clearTimer();
+    setCapture(prev => prev && { ...prev, phase: 'capturing', countdown: 0, captured: 0 });
+
+    timerRef.current = setInterval(() => {
+      if (collectRef.current(label)) {
+        captured++;
+        setCapture(prev => prev && { ...prev, captured });
+      }
+      if (target !== null && captured >= target) {
+        clearTimer();
+        setCapture(null);
+      }
+    }, interval);
+  };
+
+  const startHold = (label: string) => {
+    setCapture({ mode: 'hold', label, phase: 'capturing', countdown: 0, captured: 0, target: null });
+    startCapturing(label, null);
+  };
+
+  const startBurst = (label: string) => {
+    const target = Math.max(1, Math.floor(settings.count));
+    let countdown = Math.max(0, Math.floor(settings.delay));
+
+    clearTimer();
+    setCapture({ mode: 'burst', label, phase: 'countdown', countdown, captured: 0, target });
+
+    if (countdown === 0) {
+      startCapturing(label, target);
+      return;
+    }
+
+    timerRef.current = setInterval(() => {
+      countdown--;
+      if (countdown > 0) {
+        setCapture(prev => prev && { ...prev, countdown });
+      } else {
+        startCapturing(label, target);
+      }
+    }, 1000);
+  };
+
+  // Cleanup on unmount
+  useEffect(() => clearTimer, []);
+
+  return { capture, startHold, startBurst, stop };
+}
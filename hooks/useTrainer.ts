@@ -0,0 +1,1473 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ClassificationResult, ML5NeuralNetwork, PersonClassification, SmoothingOptions, TrainingLog, TrainingLogs, TrainingMarker, TrainingOptions } from '../types';
+import { FeatureExtractor, getFeatureExtractor, parseSequenceId } from '../utils/featureExtractors';
+import { EvaluationPrediction, EvaluationResult, RegressionEvaluation, evaluatePredictions, evaluateRegression, shuffle, splitDataset, splitRandom } from '../utils/evaluation';
+import {
+  TrainingScheduleOptions,
+  DEFAULT_TRAINING_SCHEDULE,
+  createEarlyStopping,
+  getScheduledLearningRate
+} from '../utils/trainingSchedule';
+import { LayerSpec, DEFAULT_ARCHITECTURE, toMl5Layers, parseArchitecture } from '../utils/networkArchitecture';
+import { loadLastExtractorId, loadTrainerSnapshot, saveLastExtractorId, saveTrainerSnapshot } from '../utils/trainerStore';
+import { CsvImportReport, parseDataset, serializeDataset } from '../utils/datasetCsv';
+import { MergeOptions, identityMapping, mergeSamples } from '../utils/datasetMerge';
+import { sanitizePredictions } from '../utils/landmarkSession';
+import { UNKNOWN_LABEL, matchTemplates } from '../utils/templateMatcher';
+import { KnnOptions, DEFAULT_KNN_OPTIONS, classifyKnn, regressKnn } from '../utils/knnClassifier';
+import { RejectionDecision, RejectionReason, applyRejection } from '../utils/openSet';
+import { ResultSmoother, DEFAULT_SMOOTHING_OPTIONS, createResultSmoother } from '../utils/resultSmoothing';
+import { TrainerTask, RegressionTarget, DEFAULT_REGRESSION_TARGETS, clampTarget, formatTargetLabel, getRegressionOutputs } from '../utils/regression';
+
+/**
+ * Shared trainer core for Gesture / Face / Body trainers
+ *
+ * Owns labels, sample collection, training, save/load, CSV import/export
+ * and the classification loop. Trainers only differ by the feature extractor.
+ */
+
+export interface TrainingSample {
+  inputs: number[];
+  label: string;
+  // Sanitized predictions the features came from - lets the dataset be re-extracted later
+  // (missing for samples imported from CSV)
+  raw?: any[];
+  // Regression: one value per target, captured with the sample (label is just these values formatted)
+  targets?: number[];
+}
+
+// 'knn' and 'templates' classify with the samples directly (utils/knnClassifier.ts, utils/templateMatcher.ts) - no training
+export type ClassifierBackend = 'neuralNetwork' | 'knn' | 'templates';
+
+export interface TrainerSettings {
+  task: TrainerTask;
+  targets: RegressionTarget[];
+  backend: ClassifierBackend;
+  matchThreshold: number;  // unknown above this distance to the nearest sample, every backend (0 = off)
+  minConfidence: number;   // unknown below this confidence (0 = off)
+  backgroundLabel: string; // class reported as unknown ('' = none)
+  smoothing: SmoothingOptions;
+  knn: KnnOptions;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  validationSplit: number;
+  schedule: TrainingScheduleOptions;
+  architecture: LayerSpec[];
+}
+
+export const DEFAULT_TRAINER_SETTINGS: TrainerSettings = {
+  task: 'classification',
+  targets: DEFAULT_REGRESSION_TARGETS,
+  backend: 'neuralNetwork',
+  matchThreshold: 0,
+  minConfidence: 0,
+  backgroundLabel: '',
+  smoothing: DEFAULT_SMOOTHING_OPTIONS,
+  knn: DEFAULT_KNN_OPTIONS,
+  epochs: 50,
+  batchSize: 12,
+  learningRate: 0.2,
+  validationSplit: 0.2,
+  schedule: DEFAULT_TRAINING_SCHEDULE,
+  architecture: DEFAULT_ARCHITECTURE
+};
+
+// Same three files ml5 `network.save` downloads, kept in memory
+export interface TrainerModelFiles {
+  modelJson: any;
+  metadata: any;
+  weights: Uint8Array;
+}
+
+// Everything needed to rebuild a trainer (project files, IndexedDB autosave)
+export interface TrainerSnapshot {
+  extractorId: string;
+  labels: string[];
+  samples: TrainingSample[];
+  settings: Partial<TrainerSettings>; // older or hand-edited snapshots may miss fields - restored with defaults
+  model: TrainerModelFiles | null;
+}
+
+// Parsed CSV waiting for the user to choose append / replace and label mapping
+export interface PendingCsvImport {
+  samples: TrainingSample[];
+  report: CsvImportReport;
+}
+
+export interface TrainerProjectHandle {
+  getSnapshot: () => Promise<TrainerSnapshot>;
+}
+
+interface UseTrainerOptions<T> {
+  // Single-frame extractors the trainer can switch between (first = default); each also has motion clip variants
+  extractorIds: string[];
+  dataRef: React.MutableRefObject<T[]>;
+  onClassificationResult?: (result: ClassificationResult) => void;
+  onRegressionResult?: (values: Record<string, number>) => void;
+  // Multi-person: classify every tracked person separately (see utils/personTracker.ts)
+  peopleRef?: React.MutableRefObject<{ id: number; prediction: T }[]>;
+  onPersonResults?: (results: PersonClassification[]) => void;
+  // Project save/restore (see utils/projectFile.ts)
+  projectRef?: React.MutableRefObject<TrainerProjectHandle | null>;
+  pendingSnapshot?: TrainerSnapshot | null;
+  onSnapshotRestored?: () => void;
+}
+
+export interface TrainerState {
+  extractor: FeatureExtractor;
+  labels: string[];
+  dataCounts: Record<string, number>;
+  samples: TrainingSample[];
+  totalSamples: number;
+  sampleCount: number;
+  trainingLogs: TrainingLog[];
+  trainingMarkers: TrainingMarker[];
+  isTraining: boolean;
+  isEvaluating: boolean;
+  isTrained: boolean;
+  isReady: boolean; // something to classify with: a trained network, or samples for knn / templates
+  evaluation: EvaluationResult | null;
+  regressionEvaluation: RegressionEvaluation | null;
+  csvReport: CsvImportReport | null;
+  pendingImport: PendingCsvImport | null;
+  isLoading: boolean;
+  classificationResult: string;
+  confidence: number;
+  personResults: PersonClassification[];
+  matchDistance: number | null; // distance to the nearest collected sample (null without samples)
+  rejection: { candidate: NonNullable<RejectionDecision['candidate']>; reason: RejectionReason } | null; // why the live result is unknown
+  clipProgress: number | null; // sequence mode: 0..1 while a clip is being recorded
+  clipError: string | null;     // sequence mode: why the last recorded clip was not added
+  showDistance: boolean;        // measure matchDistance even with the distance check off (for display)
+  task: TrainerTask;
+  targets: RegressionTarget[];
+  targetValues: number[];             // regression: values the next sample is tagged with
+  regressionValues: number[] | null;  // regression: live output
+  backend: ClassifierBackend;
+  matchThreshold: number;
+  minConfidence: number;
+  backgroundLabel: string;
+  smoothing: SmoothingOptions;
+  knn: KnnOptions;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  validationSplit: number;
+  schedule: TrainingScheduleOptions;
+  architecture: LayerSpec[];
+  fineTune: boolean;
+  setTask: (value: TrainerTask) => void;
+  setTargets: (value: RegressionTarget[]) => void;
+  setTargetValues: (value: number[]) => void;
+  setBackend: (value: ClassifierBackend) => void;
+  setMatchThreshold: (value: number) => void;
+  setShowDistance: (value: boolean) => void;
+  setMinConfidence: (value: number) => void;
+  setBackgroundLabel: (value: string) => void;
+  setSmoothing: (value: SmoothingOptions) => void;
+  setKnn: (value: KnnOptions) => void;
+  setEpochs: (value: number) => void;
+  setBatchSize: (value: number) => void;
+  setLearningRate: (value: number) => void;
+  setValidationSplit: (value: number) => void;
+  setSchedule: (value: TrainingScheduleOptions) => void;
+  setArchitecture: (value: LayerSpec[]) => void;
+  setFineTune: (value: boolean) => void;
+  addLabel: (label: string) => boolean;
+  collectData: (label: string) => boolean;
+  deleteSamples: (indices: number[]) => void;
+  relabelSamples: (indices: number[], label: string) => void;
+  recomputeFeatures: () => void;
+  trainModel: () => void;
+  saveModel: (name: string) => void;
+  loadModel: (files: File[]) => void;
+  exportCSV: (fileName: string) => void;
+  importCSV: (file: File) => void;
+  applyImport: (options: MergeOptions) => void;
+  cancelImport: () => void;
+  dismissCsvReport: () => void;
+  dismissClipError: () => void;
+  clearWorkspace: () => void;
+  switchExtractor: (id: string) => void;
+}
+
+// Debounce autosave so burst capture doesn't write IndexedDB on every sample
+const AUTOSAVE_DELAY = 500;
+
+// Classification has a single 'label' output; regression one output per target name
+const createNetwork = (inputSize: number, layers?: LayerSpec[], regressionOutputs?: string[]): ML5NeuralNetwork => {
+  const task = regressionOutputs ? 'regression' : 'classification';
+  return window.ml5.neuralNetwork({
+    task,
+    debug: false,
+    inputs: inputSize,
+    outputs: regressionOutputs ?? ['label'],  // 明確指定輸出結構
+    ...(layers ? { layers: toMl5Layers(layers, task) } : {})
+  });
+};
+
+// ml5 doesn't expose the underlying tf.LayersModel - early stopping and LR schedules need it directly
+const getTfModel = (network: ML5NeuralNetwork): any => (network as any)?.neuralNetwork?.model ?? null;
+
+const setOptimizerLearningRate = (model: any, rate: number) => {
+  const optimizer = model?.optimizer;
+  if (!optimizer) return;
+  if (typeof optimizer.setLearningRate === 'function') {
+    optimizer.setLearningRate(rate); // SGD
+  } else if ('learningRate' in optimizer) {
+    optimizer.learningRate = rate;   // Adam / RMSProp read it on every step
+  }
+};
+
+// Serialize the trained model like ml5 `network.save` does, but without triggering downloads
+const exportModelFiles = async (network: ML5NeuralNetwork): Promise<TrainerModelFiles | null> => {
+  const model = getTfModel(network);
+  const metadata = (network as any)?.neuralNetworkData?.meta;
+  if (!model || !metadata || !window.tf?.io) return null;
+
+  let files: TrainerModelFiles | null = null;
+  await model.save(window.tf.io.withSaveHandler(async (artifacts: any) => {
+    files = {
+      modelJson: {
+        modelTopology: artifacts.modelTopology,
+        weightsManifest: [{ paths: ['./model.weights.bin'], weights: artifacts.weightSpecs }]
+      },
+      metadata,
+      weights: new Uint8Array(artifacts.weightData)
+    };
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  return files;
+};
+
+// Class names ml5 stored in the model metadata (one-hot order)
+const getMetadataLabels = (metadata: any): string[] => {
+  const output = metadata?.outputs?.label;
+  const values = output?.uniqueValues ?? Object.keys(output?.legend ?? {});
+  return Array.isArray(values) ? values.map(String) : [];
+};
+
+const getNetworkLabels = (network: ML5NeuralNetwork): string[] =>
+  getMetadataLabels((network as any)?.neuralNetworkData?.meta);
+
+// Per-epoch val_loss / val_acc on the held-out samples, scored with the tf model directly
+// (ml5's own validationSplit would take the last rows of the training data without shuffling)
+const getValidationLogs = (network: ML5NeuralNetwork, samples: TrainingSample[], targetNames?: string[]): TrainingLogs => {
+  const model = getTfModel(network);
+  const metadata = (network as any)?.neuralNetworkData?.meta;
+  const tf = window.tf as any;
+  if (!model || !metadata || !tf?.tensor2d || samples.length === 0) return {};
+
+  // Same min/max scaling as ml5 `normalizeData`
+  const scale = (value: number, stats: any) => {
+    const range = (stats?.max ?? 0) - (stats?.min ?? 0);
+    return range > 0 ? (value - stats.min) / range : 0;
+  };
+  const inputStats: any[] = Object.values(metadata.inputs ?? {});
+  const outputs: number[][] = tf.tidy(() =>
+    model.predict(tf.tensor2d(samples.map(s => s.inputs.map((v, i) => scale(v, inputStats[i]))))).arraySync()
+  );
+
+  // Regression: mean squared error on the normalized targets, like the training loss
+  if (targetNames) {
+    const errors = samples.flatMap((s, i) =>
+      targetNames.map((name, t) => (outputs[i][t] - scale(s.targets![t], metadata.outputs?.[name])) ** 2)
+    );
+    return { val_loss: errors.reduce((sum, e) => sum + e, 0) / errors.length };
+  }
+
+  const labels = getMetadataLabels(metadata);
+  let loss = 0;
+  let correct = 0;
+  samples.forEach((s, i) => {
+    const actual = labels.indexOf(s.label);
+    loss -= Math.log(Math.max(outputs[i][actual] ?? 0, 1e-7)); // categorical cross-entropy
+    if (outputs[i].indexOf(Math.max(...outputs[i])) === actual) correct++;
+  });
+  return { val_loss: loss / samples.length, val_acc: correct / samples.length };
+};
+
+// ml5 builds and compiles the tf model inside train() - hook compile to copy the source weights
+// into the fresh model before the first epoch (architecture must match)
+const warmStartFrom = (nn: ML5NeuralNetwork, source: ML5NeuralNetwork) => {
+  const target = nn as any;
+  const sourceModel = getTfModel(source);
+  if (!sourceModel || typeof target.compile !== 'function') return;
+
+  const compile = target.compile.bind(target);
+  target.compile = (...args: any[]) => {
+    compile(...args);
+    const model = getTfModel(nn);
+    const weights = sourceModel.getWeights();
+    const targetWeights = model?.getWeights() ?? [];
+    const compatible = weights.length === targetWeights.length &&
+      weights.every((w: any, i: number) => w.shape.join() === targetWeights[i].shape.join());
+
+    if (compatible) {
+      model.setWeights(weights);
+    } else {
+      console.warn("Fine-tune skipped: network architecture changed since the model was trained");
+    }
+  };
+};
+
+// Re-run an extractor on the stored raw predictions; null where a sample can't be converted
+const reextractSamples = (samples: TrainingSample[], extractor: FeatureExtractor): (TrainingSample | null)[] =>
+  samples.map(sample => {
+    // Motion clips store frames of predictions - they only convert to another sequence extractor
+    const isClip = !!sample.raw && sample.raw.length > 0 && sample.raw.every(Array.isArray);
+    const inputs = sample.raw && isClip === !!extractor.sequence ? extractor.extract(sample.raw) : null;
+    return inputs && inputs.length === extractor.inputSize ? { ...sample, inputs } : null;
+  });
+
+const classifyAsync = (network: ML5NeuralNetwork, inputs: number[]) =>
+  new Promise<any[]>(resolve => network.classify(inputs, resolve));
+
+// Regression outputs in target order (ml5 labels each result with its output name)
+const predictAsync = (network: ML5NeuralNetwork, inputs: number[], outputs: string[]) =>
+  new Promise<any[]>(resolve => network.predict(inputs, resolve))
+    .then(results => outputs.map((name, i) => Number((results.find(r => r?.label === name) ?? results[i])?.value ?? 0)));
+
+export function useTrainer<T>({
+  extractorIds,
+  dataRef,
+  onClassificationResult,
+  onRegressionResult,
+  peopleRef,
+  onPersonResults,
+  projectRef,
+  pendingSnapshot,
+  onSnapshotRestored
+}: UseTrainerOptions<T>): TrainerState {
+  // Switching extractors rebuilds the network and opens that extractor's autosaved workspace;
+  // the trainer reopens with the one used last
+  const [extractorId, setExtractorId] = useState(() => {
+    const modality = getFeatureExtractor(extractorIds[0]).modality;
+    const last = loadLastExtractorId(modality);
+    return last && extractorIds.includes(parseSequenceId(last).baseId) ? last : extractorIds[0];
+  });
+  const extractor = getFeatureExtractor<T>(extractorId);
+
+  useEffect(() => {
+    saveLastExtractorId(extractor.modality, extractor.id);
+  }, [extractor.id]);
+
+  const [network, setNetwork] = useState<ML5NeuralNetwork | null>(null);
+  const [labels, setLabels] = useState<string[]>([]);
+  const [trainingLogs, setTrainingLogs] = useState<TrainingLog[]>([]);
+  const [trainingMarkers, setTrainingMarkers] = useState<TrainingMarker[]>([]);
+  const [isTraining, setIsTraining] = useState(false);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
+  const [regressionEvaluation, setRegressionEvaluation] = useState<RegressionEvaluation | null>(null);
+  const [csvReport, setCsvReport] = useState<CsvImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingCsvImport | null>(null);
+  const [isTrained, setIsTrained] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [classificationResult, setClassificationResult] = useState<string>('');
+  const [confidence, setConfidence] = useState<number>(0);
+  const [personResults, setPersonResults] = useState<PersonClassification[]>([]);
+  const [clipProgress, setClipProgress] = useState<number | null>(null);
+  const [clipError, setClipError] = useState<string | null>(null);
+  const [matchDistance, setMatchDistance] = useState<number | null>(null);
+  const [rejection, setRejection] = useState<TrainerState['rejection']>(null);
+  const [showDistance, setShowDistance] = useState(false);
+
+  // Task - regression tags samples with target values instead of a class
+  const [task, setTaskState] = useState<TrainerTask>('classification');
+  const [targets, setTargetsState] = useState<RegressionTarget[]>(DEFAULT_REGRESSION_TARGETS);
+  const [targetValues, setTargetValues] = useState<number[]>(() => DEFAULT_REGRESSION_TARGETS.map(t => t.min));
+  const [regressionValues, setRegressionValues] = useState<number[] | null>(null);
+
+  // Classifier backend
+  const [backend, setBackend] = useState<ClassifierBackend>('neuralNetwork');
+
+  // Open-set rejection (utils/openSet.ts) - 0 / '' = off, so every prediction is a trained class
+  const [matchThreshold, setMatchThreshold] = useState(0);
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [backgroundLabel, setBackgroundLabel] = useState('');
+  const [smoothing, setSmoothing] = useState<SmoothingOptions>(DEFAULT_SMOOTHING_OPTIONS);
+  const [knn, setKnn] = useState<KnnOptions>(DEFAULT_KNN_OPTIONS);
+
+  // Training Hyperparameters
+  const [epochs, setEpochs] = useState(DEFAULT_TRAINER_SETTINGS.epochs);
+  const [batchSize, setBatchSize] = useState(DEFAULT_TRAINER_SETTINGS.batchSize);
+  const [learningRate, setLearningRate] = useState(DEFAULT_TRAINER_SETTINGS.learningRate);
+  const [validationSplit, setValidationSplit] = useState(DEFAULT_TRAINER_SETTINGS.validationSplit); // 0 = 不切驗證集
+  const [schedule, setSchedule] = useState<TrainingScheduleOptions>(DEFAULT_TRAINING_SCHEDULE);
+  const [architecture, setArchitecture] = useState<LayerSpec[]>(DEFAULT_ARCHITECTURE);
+  const [fineTune, setFineTune] = useState(false); // continue from the current weights instead of starting over
+
+  // Stats tracking
+  const [dataCounts, setDataCounts] = useState<Record<string, number>>({});
+
+  // Dataset is the source of truth - the ml5 network is rebuilt from it on every training run,
+  // so edits in the dataset browser never drift from what the model is trained on
+  const trainingDataRef = useRef<TrainingSample[]>([]);
+
+  // Sequence mode: rolling window of the latest frames + the clip being recorded
+  const framesRef = useRef<any[][]>([]);
+  const clipRecordingRef = useRef<{ label: string; targets?: number[]; frames: any[][] } | null>(null);
+
+  // Avoid restarting the classification loop when the parent passes a new callback
+  const onClassificationResultRef = useRef(onClassificationResult);
+  useEffect(() => {
+    onClassificationResultRef.current = onClassificationResult;
+  }, [onClassificationResult]);
+
+  const onRegressionResultRef = useRef(onRegressionResult);
+  useEffect(() => {
+    onRegressionResultRef.current = onRegressionResult;
+  }, [onRegressionResult]);
+
+  const onPersonResultsRef = useRef(onPersonResults);
+  useEffect(() => {
+    onPersonResultsRef.current = onPersonResults;
+  }, [onPersonResults]);
+
+  const extractorRef = useRef(extractor);
+  extractorRef.current = extractor;
+
+  const extractFeatures = useCallback((): number[] | null => {
+    const current = extractorRef.current;
+    if (current.sequence) {
+      const frames = framesRef.current;
+      const inputs = frames.length === current.sequence.frames ? current.extract(frames) : null;
+      return inputs && inputs.length === current.inputSize ? inputs : null;
+    }
+
+    const predictions = dataRef.current;
+    if (!predictions || predictions.length === 0) return null;
+
+    const inputs = current.extract(predictions);
+    return inputs && inputs.length === current.inputSize ? inputs : null;
+  }, [dataRef]);
+
+  // Drop dataset and model (hyperparameters are kept)
+  const resetWorkspace = () => {
+    setNetwork(null);
+    trainingDataRef.current = [];
+    setLabels([]);
+    setDataCounts({});
+    setTrainingLogs([]);
+    setTrainingMarkers([]);
+    setIsTrained(false);
+    setFineTune(false);
+    setEvaluation(null);
+    setRegressionEvaluation(null);
+    setRegressionValues(null);
+    onRegressionResultRef.current?.({}); // no outputs until a model predicts again
+    setCsvReport(null);
+    setPendingImport(null);
+    setClassificationResult('');
+    setConfidence(0);
+    setPersonResults([]);
+    setMatchDistance(null);
+    setRejection(null);
+    clipRecordingRef.current = null;
+    setClipProgress(null);
+    setClipError(null);
+  };
+
+  // Reset whenever the feature extractor changes - old samples no longer match the input size
+  useEffect(() => {
+    resetWorkspace();
+  }, [extractor.id, extractor.inputSize]);
+
+  // KNN classification waits for every class to have a sample, templates and KNN regression only need one sample
+  const isReady = backend === 'neuralNetwork' ? isTrained && !!network
+    : backend === 'knn' && task === 'classification' ? labels.length > 0 && labels.every(label => dataCounts[label] > 0)
+    : (Object.values(dataCounts) as number[]).some(count => count > 0);
+
+  // Handle Classification Loop - Sequential to prevent crashing
+  useEffect(() => {
+    let timerId: ReturnType<typeof setTimeout>;
+    let isCancelled = false;
+
+    let hadPeople = false;
+
+    // Every backend answers like ml5: [{ label, confidence }, ...] best first,
+    // plus the distance to the nearest sample for the out-of-distribution check.
+    // The distance is a full scan of the dataset (DTW against every clip in motion modes) -
+    // only measured when the check is on or the value is on screen
+    const predict = async (inputs: number[], withDistance: boolean): Promise<{ results: any[]; distance: number | null }> => {
+      const samples = trainingDataRef.current;
+      // Same measure for every backend (RMS per feature, DTW for clips) so one threshold fits all;
+      // unknown itself is decided by applyRejection
+      const nearest = () => matchTemplates(samples, inputs, {
+        frames: extractorRef.current.sequence?.frames ?? 1,
+        threshold: 0
+      });
+
+      if (backend === 'templates') {
+        const match = nearest();
+        return { results: match?.results ?? [], distance: match?.distance ?? null };
+      }
+
+      const results = backend === 'neuralNetwork'
+        ? await classifyAsync(network!, inputs)
+        : classifyKnn(samples, inputs, knn)?.results ?? [];
+      // A loaded model without samples has nothing to compare with - the distance check is skipped
+      return { results, distance: withDistance ? nearest()?.distance ?? null : null };
+    };
+
+    const rejectionOptions = { minConfidence, maxDistance: matchThreshold, backgroundLabel };
+    const decide = ({ results, distance }: { results: any[]; distance: number | null }) =>
+      applyRejection(results, distance, rejectionOptions);
+
+    // Rejected frames vote for unknown, so unknown also has to hold for a while before it is reported
+    // (the vote is only a weight - unknown itself is reported with confidence 0, like applyRejection)
+    const smoother = createResultSmoother();
+    const personSmoothers = new Map<number, ResultSmoother>();
+    const smooth = (target: ResultSmoother, results: any[], decision: RejectionDecision) => {
+      const smoothed = target.update(decision.reason ? [{ label: decision.label, confidence: 1 }] : results, smoothing);
+      return smoothed.label === UNKNOWN_LABEL ? { label: UNKNOWN_LABEL, confidence: 0 } : smoothed;
+    };
+
+    // Structured result for the parent - the reported label plus this frame's full distribution
+    const toClassificationResult = (label: string, confidence: number, results: any[]): ClassificationResult => ({
+      label,
+      confidence,
+      scores: results.map(result => ({ label: result.label ?? '', confidence: result.confidence ?? 0 })),
+      timestamp: Date.now(),
+      source: extractorRef.current.modality,
+      modelId: `${backend}:${extractorRef.current.id}`
+    });
+
+    // Regression: continuous values in target order
+    const targetNames = targets.map(t => t.name);
+    const regress = async (inputs: number[]): Promise<number[] | null> => {
+      if (backend === 'neuralNetwork') return predictAsync(network!, inputs, targetNames);
+
+      const result = regressKnn(trainingDataRef.current, inputs, knn);
+      setMatchDistance(result?.distance ?? null);
+      return result?.values ?? null;
+    };
+
+    const runRegression = (inputs: number[]) => {
+      regress(inputs).then(values => {
+        if (isCancelled) return;
+        if (values) {
+          setRegressionValues(values);
+          onRegressionResultRef.current?.(Object.fromEntries(targetNames.map((name, i) => [name, values[i]])));
+        }
+        timerId = setTimeout(classify, 100);
+      }).catch(e => {
+        console.error("Regression error:", e);
+        if (!isCancelled) timerId = setTimeout(classify, 200);
+      });
+    };
+
+    // One inference per tracked person, still strictly sequential
+    const classifyPeople = async (people: { id: number; prediction: T }[]) => {
+      const current = extractorRef.current;
+      const results: PersonClassification[] = [];
+      let primary: { prediction: { results: any[]; distance: number | null }; decision: RejectionDecision } | null = null;
+      for (const person of people) {
+        const inputs = current.extract([person.prediction]);
+        if (!inputs || inputs.length !== current.inputSize) continue;
+
+        // Only the primary person's distance is displayed
+        const prediction = await predict(inputs, matchThreshold > 0 || (showDistance && results.length === 0));
+        if (isCancelled) return;
+        const decision = decide(prediction);
+        if (decision.candidate) {
+          if (!personSmoothers.has(person.id)) personSmoothers.set(person.id, createResultSmoother());
+          if (results.length === 0) primary = { prediction, decision };
+          results.push({ id: person.id, ...smooth(personSmoothers.get(person.id)!, prediction.results, decision) });
+        }
+      }
+
+      // Tracks that ended take their history with them
+      const ids = new Set(people.map(person => person.id));
+      personSmoothers.forEach((_, id) => { if (!ids.has(id)) personSmoothers.delete(id); });
+
+      setPersonResults(results);
+      onPersonResultsRef.current?.(results);
+
+      // The lowest id stays the primary result (combination rules, header display)
+      if (primary) {
+        const { label, confidence } = results[0];
+        const { candidate, reason } = primary.decision;
+        setClassificationResult(label);
+        setConfidence(confidence);
+        setMatchDistance(primary.prediction.distance);
+        setRejection(prev => label !== UNKNOWN_LABEL ? null : reason ? { candidate: candidate!, reason } : prev);
+        onClassificationResultRef.current?.(toClassificationResult(label, confidence, primary.prediction.results));
+      }
+      timerId = setTimeout(classify, 100);
+    };
+
+    const classify = () => {
+      if (isCancelled) return;
+
+      if (task === 'regression') {
+        const input = extractFeatures();
+        if (input) {
+          runRegression(input);
+          return;
+        }
+        timerId = setTimeout(classify, 200);
+        return;
+      }
+
+      const people = peopleRef?.current ?? [];
+      if (people.length > 0 && !extractorRef.current.sequence) {
+        hadPeople = true;
+        classifyPeople(people).catch(e => {
+          console.error("Classification error:", e);
+          if (!isCancelled) timerId = setTimeout(classify, 200);
+        });
+        return;
+      }
+      if (hadPeople) {
+        hadPeople = false;
+        setPersonResults([]);
+        onPersonResultsRef.current?.([]);
+      }
+
+      // Ensure we have landmark data
+      const input = extractFeatures();
+      if (input) {
+        try {
+          // NOTE: We wait for the result BEFORE scheduling the next classification.
+          // This prevents "stacking" inference calls which crashes the browser.
+          predict(input, matchThreshold > 0 || showDistance).then(prediction => {
+            if (isCancelled) return;
+
+            // ml5 v1: callback receives results directly (not error, results)
+            // Format: [{ label: 'One', confidence: 0.99 }, ...] - the top one may be rejected as unknown
+            const decision = decide(prediction);
+            const { candidate, reason } = decision;
+            setMatchDistance(prediction.distance);
+            if (candidate) {
+              const { label, confidence } = smooth(smoother, prediction.results, decision);
+              setClassificationResult(label);
+              setConfidence(confidence);
+              // While unknown holds, keep showing the last reason
+              setRejection(prev => label !== UNKNOWN_LABEL ? null : reason ? { candidate, reason } : prev);
+
+              // Pass result to parent component
+              onClassificationResultRef.current?.(toClassificationResult(label, confidence, prediction.results));
+            }
+
+            // Schedule next inference only after this one is done
+            timerId = setTimeout(classify, 100);
+          }).catch(e => {
+            console.error("Classification error:", e);
+            if (!isCancelled) timerId = setTimeout(classify, 200);
+          });
+          return; // Exit here, let the promise schedule next
+        } catch (e) {
+          console.error("Classification error:", e);
+        }
+      }
+
+      // If no data or not trained, check again in 200ms
+      timerId = setTimeout(classify, 200);
+    };
+
+    if (isReady) {
+      classify();
+    }
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timerId);
+    };
+  }, [isReady, network, extractFeatures, peopleRef, backend, matchThreshold, showDistance, minConfidence, backgroundLabel, smoothing, knn, task, targets]);
+
+  const addLabel = (label: string) => {
+    if (!label || labels.includes(label)) return false;
+    setLabels([...labels, label]);
+    setDataCounts(prev => ({ ...prev, [label]: 0 }));
+    return true;
+  };
+
+  const addSample = (sample: TrainingSample) => {
+    trainingDataRef.current.push(sample);
+
+    setDataCounts(prev => ({
+      ...prev,
+      [sample.label]: (prev[sample.label] || 0) + 1
+    }));
+  };
+
+  // Regression ignores the label it is given - samples are tagged with the current target values
+  const collectData = (label: string) => {
+    const tag = task === 'regression'
+      ? { label: formatTargetLabel(targetValues), targets: [...targetValues] }
+      : { label };
+
+    // Sequence mode: start a clip - the frame sampler adds the sample once it is complete
+    if (extractor.sequence) {
+      if (clipRecordingRef.current) return false;
+      clipRecordingRef.current = { ...tag, frames: [] };
+      setClipProgress(0);
+      setClipError(null);
+      return true;
+    }
+
+    const inputs = extractFeatures();
+    if (!inputs) return false;
+
+    const raw = sanitizePredictions(extractor.modality, dataRef.current);
+    addSample({ inputs, ...tag, raw });
+    return true;
+  };
+
+  // Sequence mode: sample the landmark stream at a fixed rate so recorded and live clips share the same timing
+  useEffect(() => {
+    framesRef.current = [];
+    const sequence = extractor.sequence;
+    if (!sequence) return;
+
+    const timerId = setInterval(() => {
+      const frame = sanitizePredictions(extractor.modality, dataRef.current ?? []);
+      framesRef.current = [...framesRef.current, frame].slice(-sequence.frames);
+
+      const recording = clipRecordingRef.current;
+      if (!recording) return;
+
+      recording.frames.push(frame);
+      if (recording.frames.length < sequence.frames) {
+        setClipProgress(recording.frames.length / sequence.frames);
+        return;
+      }
+
+      clipRecordingRef.current = null;
+      setClipProgress(null);
+      const inputs = extractor.extract(recording.frames);
+      if (inputs && inputs.length === extractor.inputSize) {
+        const { frames, ...tag } = recording;
+        addSample({ inputs, ...tag, raw: frames });
+      } else {
+        setClipError('Clip discarded: nothing was detected in most of its frames. Stay in view and record it again.');
+      }
+    }, sequence.frameInterval);
+
+    return () => clearInterval(timerId);
+  }, [extractor, dataRef]);
+
+  // Replace the dataset and recount every class (labels without samples are kept)
+  const updateSamples = (samples: TrainingSample[], extraLabels: string[] = []) => {
+    trainingDataRef.current = samples;
+
+    const counts: Record<string, number> = {};
+    labels.concat(extraLabels).forEach(label => { counts[label] = 0; });
+    samples.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+
+    setLabels(Object.keys(counts));
+    setDataCounts(counts);
+  };
+
+  const deleteSamples = (indices: number[]) => {
+    const removed = new Set(indices);
+    updateSamples(trainingDataRef.current.filter((_, i) => !removed.has(i)));
+  };
+
+  const relabelSamples = (indices: number[], label: string) => {
+    if (!label) return;
+    const selected = new Set(indices);
+    updateSamples(
+      trainingDataRef.current.map((sample, i) => selected.has(i) ? { ...sample, label } : sample),
+      [label]
+    );
+  };
+
+  // Apply the current extractor again, e.g. after its normalization changed
+  const recomputeFeatures = () => {
+    const samples = trainingDataRef.current;
+    const results = reextractSamples(samples, extractor);
+    const recomputed = results.filter(Boolean).length;
+
+    updateSamples(samples.map((sample, i) => results[i] ?? sample));
+    alert(`Recomputed ${recomputed} of ${samples.length} samples with ${extractor.name}.` +
+      (recomputed < samples.length ? `\n${samples.length - recomputed} sample(s) have no stored keypoints and were kept as they are.` : ''));
+  };
+
+  // Keep the current dataset for the next extractor (e.g. another face mode) instead of its autosave
+  const carryOverRef = useRef<{ samples: TrainingSample[]; labels: string[] } | null>(null);
+
+  // Samples keep their raw keypoints, so the dataset can come along to the new extractor
+  const switchExtractor = (id: string) => {
+    if (id === extractor.id) return;
+    const target = getFeatureExtractor(id);
+    const convertible = reextractSamples(trainingDataRef.current, target).filter(s => s !== null).length;
+    if (convertible > 0 && confirm(
+      `Recompute ${convertible} sample(s) for ${target.name}?\n\n` +
+      `OK: bring this dataset along (replaces the data saved for ${target.name})\n` +
+      `Cancel: open the data saved for ${target.name}`
+    )) {
+      carryOverRef.current = { samples: trainingDataRef.current, labels };
+    }
+    setExtractorId(id);
+  };
+
+  const totalSamples = (Object.values(dataCounts) as number[]).reduce((a, b) => a + b, 0);
+
+  const trainModel = () => {
+    if (!window.ml5) return;
+
+    // Check if we have enough data
+    if (totalSamples < 2) {
+      alert("Please collect at least 2 data samples before training.");
+      return;
+    }
+
+    const isRegression = task === 'regression';
+    const targetNames = targets.map(t => t.name);
+
+    // Fine-tuning keeps the output layer, so the classes must be exactly the ones the model knows
+    const sourceNetwork = fineTune && isTrained && !isRegression ? network : null;
+    const sourceLabels = sourceNetwork ? getNetworkLabels(sourceNetwork) : [];
+    if (sourceNetwork) {
+      const datasetLabels = new Set(trainingDataRef.current.map(s => s.label));
+      if (datasetLabels.size !== sourceLabels.length || !sourceLabels.every(label => datasetLabels.has(label))) {
+        alert(`Fine-tuning needs samples for exactly the model's classes:\n${sourceLabels.join(', ')}\n\nUntick "Fine-tune" to train a new model with the current classes.`);
+        return;
+      }
+    }
+
+    // Snapshot - the dataset may be edited while training runs
+    // (regression only learns from samples tagged with a value for every target)
+    const samples = isRegression
+      ? trainingDataRef.current.filter(s => s.targets?.length === targetNames.length)
+      : trainingDataRef.current;
+    if (isRegression && samples.length < 2) {
+      alert(`Please collect at least 2 samples with values for ${targetNames.join(', ')} before training.`);
+      return;
+    }
+
+    setIsTraining(true);
+    setTrainingLogs([]);
+    setTrainingMarkers([]);
+    setIsTrained(false);
+    setEvaluation(null);
+    setRegressionEvaluation(null);
+
+    const { train, validation } = isRegression
+      ? splitRandom(samples.length, validationSplit)
+      : splitDataset(samples.map(s => s.label), validationSplit);
+
+    // splitDataset groups samples by class - shuffle so every batch mixes classes
+    let order = shuffle(train);
+
+    // ml5 one-hot encodes classes in order of first appearance - lead with one sample per class in the loaded model's order
+    if (sourceNetwork) {
+      const firsts = sourceLabels
+        .map(label => order.find(i => samples[i].label === label))
+        .filter((i): i is number => i !== undefined);
+      order = [...firsts, ...order.filter(i => !firsts.includes(i))];
+    }
+    const validationSamples = validation.map(i => samples[i]);
+
+    const earlyStopping = schedule.earlyStopping ? createEarlyStopping(schedule.monitor, schedule.patience) : null;
+    let bestWeights: any[] | null = null;
+    let stoppedEpoch: number | null = null;
+
+    const disposeBestWeights = () => {
+      bestWeights?.forEach(w => w.dispose());
+      bestWeights = null;
+    };
+
+    // Use setTimeout to allow UI to update before heavy computation
+    setTimeout(() => {
+      try {
+        const nn = createNetwork(extractor.inputSize, architecture, isRegression ? targetNames : undefined);
+        if (sourceNetwork) warmStartFrom(nn, sourceNetwork);
+        order.forEach(i => nn.addData(
+          samples[i].inputs,
+          isRegression
+            ? Object.fromEntries(targetNames.map((name, t) => [name, samples[i].targets![t]]))
+            : { label: samples[i].label }
+        ));
+        nn.normalizeData();
+
+        // The held-out samples are already split off - stop ml5 from splitting the training samples again
+        const trainingOptions: TrainingOptions = {
+          epochs,
+          batchSize,
+          learningRate,
+          validationSplit: 0
+        };
+
+        nn.train(
+          trainingOptions,
+          (epoch: number, fitLogs: TrainingLogs) => {
+            try {
+              const model = getTfModel(nn);
+              const logs: TrainingLogs = {
+                ...fitLogs,
+                ...getValidationLogs(nn, validationSamples, isRegression ? targetNames : undefined)
+              };
+
+              if (earlyStopping && model) {
+                const { improved, stop } = earlyStopping.update(epoch, logs);
+                if (improved && schedule.restoreBestWeights) {
+                  disposeBestWeights();
+                  bestWeights = model.getWeights().map((w: any) => w.clone());
+                }
+                if (stop) {
+                  stoppedEpoch = epoch;
+                  model.stopTraining = true; // tf.js stops after this epoch
+                }
+              }
+
+              // Learning rate for the next epoch
+              if (schedule.lrSchedule !== 'constant' && model) {
+                setOptimizerLearningRate(model, getScheduledLearningRate(schedule, learningRate, epoch + 1, epochs));
+              }
+
+              // ml5 v1 format: (epoch, { acc, loss, val_acc, val_loss })
+              const log: TrainingLog = {
+                epoch,
+                loss: logs?.loss ?? 0,
+                acc: logs?.acc,
+                valLoss: logs?.val_loss,
+                valAcc: logs?.val_acc
+              };
+
+              setTrainingLogs(prev => {
+                  return [log, ...prev].slice(0, 100);
+              });
+            } catch (e) {
+              console.warn("Error in training callback:", e);
+            }
+          },
+          async () => {
+            const markers: TrainingMarker[] = [];
+            if (stoppedEpoch !== null) {
+              markers.push({ epoch: stoppedEpoch, label: 'stopped' });
+            }
+
+            // Roll back to the best epoch seen by early stopping
+            const bestEpoch = earlyStopping?.getBestEpoch() ?? -1;
+            const model = getTfModel(nn);
+            if (bestWeights && model && bestEpoch >= 0 && bestEpoch !== stoppedEpoch) {
+              try {
+                model.setWeights(bestWeights);
+                markers.push({ epoch: bestEpoch, label: 'best' });
+              } catch (e) {
+                console.warn("Failed to restore best weights:", e);
+              }
+            }
+            disposeBestWeights();
+            setTrainingMarkers(markers);
+
+            // Finished training - run held-out samples one at a time before going live
+            if (validation.length > 0 && isRegression) {
+              setIsEvaluating(true);
+              try {
+                const predicted: number[][] = [];
+                for (const i of validation) {
+                  predicted.push(await predictAsync(nn, samples[i].inputs, targetNames));
+                }
+                setRegressionEvaluation(evaluateRegression(
+                  targetNames,
+                  validation.map(i => samples[i].targets!),
+                  predicted,
+                  train.length
+                ));
+              } catch (e) {
+                console.error("Evaluation error:", e);
+              }
+              setIsEvaluating(false);
+            } else if (validation.length > 0) {
+              setIsEvaluating(true);
+              try {
+                const predictions: EvaluationPrediction[] = [];
+                for (const i of validation) {
+                  const results = await classifyAsync(nn, samples[i].inputs);
+                  predictions.push({
+                    index: i,
+                    actual: samples[i].label,
+                    predicted: results?.[0]?.label ?? '',
+                    confidence: results?.[0]?.confidence ?? 0
+                  });
+                }
+                setEvaluation(evaluatePredictions(labels, predictions, train.length));
+              } catch (e) {
+                console.error("Evaluation error:", e);
+              }
+              setIsEvaluating(false);
+            }
+
+            setNetwork(nn);
+            setIsTraining(false);
+            setIsTrained(true);
+          }
+        );
+      } catch (error) {
+        console.error("Training error:", error);
+        setIsTraining(false);
+        alert("Training failed. Please collect more varied data samples and try again.");
+      }
+    }, 100);
+  };
+
+  const saveModel = (name: string) => {
+    if (network && name) {
+      // Extra key in model_meta.json so loading restores the hyperparameters too (ml5 ignores it)
+      const metadata = (network as any).neuralNetworkData?.meta;
+      if (metadata) {
+        metadata.visionlab = {
+          extractorId: extractor.id,
+          settings: { task, targets, matchThreshold, minConfidence, backgroundLabel, epochs, batchSize, learningRate, validationSplit, schedule, architecture }
+        };
+      }
+      network.save(name);
+    }
+  };
+
+  // Load the three ml5 model files into a fresh network
+  const loadNetwork = (jsonFile: Blob, metaFile: Blob, weightsFile: Blob, onLoaded: (nn: ML5NeuralNetwork) => void, regressionOutputs?: string[]) => {
+    // Create a new neural network for loading
+    const nn = createNetwork(extractor.inputSize, undefined, regressionOutputs);
+
+    // Create object URLs for the files
+    const modelInfo = {
+      model: URL.createObjectURL(jsonFile),
+      metadata: URL.createObjectURL(metaFile),
+      weights: URL.createObjectURL(weightsFile),
+    };
+
+    // Load the model
+    nn.load(modelInfo, () => {
+      setNetwork(nn);
+      setIsTrained(true);
+      setEvaluation(null);
+      setIsLoading(false);
+      setTrainingLogs([]);
+      setTrainingMarkers([]);
+
+      // Revoke object URLs to free memory
+      URL.revokeObjectURL(modelInfo.model);
+      URL.revokeObjectURL(modelInfo.metadata);
+      URL.revokeObjectURL(modelInfo.weights);
+
+      onLoaded(nn);
+    });
+  };
+
+  const loadModel = async (fileArray: File[]) => {
+    // ml5 neuralNetwork expects: *.json (model), *meta*.json (metadata), *.bin (weights)
+    // 更寬鬆的檔案匹配：只要類型對就好
+    const jsonFile = fileArray.find(f => f.name.endsWith('.json') && !f.name.toLowerCase().includes('meta'));
+    const metaFile = fileArray.find(f => f.name.endsWith('.json') && f.name.toLowerCase().includes('meta'));
+    const weightsFile = fileArray.find(f => f.name.endsWith('.bin'));
+
+    if (!jsonFile || !metaFile || !weightsFile) {
+      alert("Please select all 3 model files:\n- Model JSON (*.json, no 'meta')\n- Metadata JSON (*meta*.json)\n- Weights binary (*.bin)");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const [modelJson, metadata] = await Promise.all([jsonFile.text(), metaFile.text()])
+        .then(texts => texts.map(text => JSON.parse(text)));
+
+      const inputUnits = Array.isArray(metadata?.inputUnits) ? metadata.inputUnits[0] : metadata?.inputUnits;
+      if (inputUnits && inputUnits !== extractor.inputSize) {
+        setIsLoading(false);
+        alert(`This model expects ${inputUnits} features, but ${extractor.name} produces ${extractor.inputSize}. Was it trained in another trainer or mode?`);
+        return;
+      }
+
+      // The class list lives in the metadata; hyperparameters only in models saved by this app
+      const modelLabels = getMetadataLabels(metadata);
+      const saved: Partial<TrainerSettings> = metadata?.visionlab?.settings ?? {};
+
+      // Regression models: output names in the metadata, ranges only if saved by this app
+      const outputs = getRegressionOutputs(metadata);
+      if ((outputs ? 'regression' : 'classification') !== task) {
+        if (trainingDataRef.current.length > 0) {
+          setIsLoading(false);
+          alert(`This is a ${outputs ? 'regression' : 'classification'} model, but the current dataset is for ${task}. Clear the workspace first to load it.`);
+          return;
+        }
+        setTaskState(outputs ? 'regression' : 'classification');
+      }
+      if (outputs) {
+        const loadedTargets = outputs.map(name =>
+          saved.targets?.find(t => t.name === name) ?? { name, min: 0, max: 1 }
+        );
+        setTargetsState(loadedTargets);
+        setTargetValues(loadedTargets.map(t => t.min));
+
+        loadNetwork(jsonFile, metaFile, weightsFile, () => {
+          setFineTune(false);
+          setBackend('neuralNetwork');
+          alert(`Regression model loaded with outputs: ${outputs.join(', ')}`);
+        }, outputs);
+      } else {
+        loadNetwork(jsonFile, metaFile, weightsFile, () => {
+          // Keep already collected samples so collection can continue on top of the model's classes
+          const counts: Record<string, number> = {};
+          modelLabels.forEach(label => { counts[label] = 0; });
+          trainingDataRef.current.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+          setLabels(Object.keys(counts));
+          setDataCounts(counts);
+          setFineTune(true);
+          setBackend('neuralNetwork');
+
+          alert(`Model loaded successfully with ${modelLabels.length} classes: ${modelLabels.join(', ')}\n\nYou can make predictions now, or collect more samples and train again to fine-tune it.`);
+        });
+      }
+
+      // Unknown thresholds are tuned per model
+      if (typeof saved.matchThreshold === 'number') setMatchThreshold(saved.matchThreshold);
+      if (typeof saved.minConfidence === 'number') setMinConfidence(saved.minConfidence);
+      if (typeof saved.backgroundLabel === 'string') setBackgroundLabel(saved.backgroundLabel);
+      if (typeof saved.epochs === 'number') setEpochs(saved.epochs);
+      if (typeof saved.batchSize === 'number') setBatchSize(saved.batchSize);
+      if (typeof saved.learningRate === 'number') setLearningRate(saved.learningRate);
+      if (typeof saved.validationSplit === 'number') setValidationSplit(saved.validationSplit);
+      if (saved.schedule) setSchedule({ ...DEFAULT_TRAINING_SCHEDULE, ...saved.schedule });
+
+      // The tf.js topology in model.json carries the architecture - restore it into the editor
+      const restored = parseArchitecture(modelJson);
+      if (restored) setArchitecture(restored);
+    } catch (error) {
+      console.error("Error loading model:", error);
+      setIsLoading(false);
+      alert("Failed to load model. Please check the files and try again.");
+    }
+  };
+
+  const exportCSV = (fileName: string) => {
+    if (trainingDataRef.current.length === 0) {
+      alert("No training data to export!");
+      return;
+    }
+
+    const csvContent = serializeDataset(trainingDataRef.current, extractor, task === 'regression' ? targets.map(t => t.name) : []);
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const commitImport = ({ samples, report }: PendingCsvImport, options: MergeOptions) => {
+    const result = mergeSamples(trainingDataRef.current, samples, options);
+
+    // Appending keeps empty classes; replacing starts from the imported classes only
+    const counts: Record<string, number> = {};
+    (options.mode === 'append' ? labels : []).forEach(label => { counts[label] = 0; });
+    result.samples.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+
+    // The ml5 network is rebuilt from the dataset on the next training run
+    trainingDataRef.current = result.samples;
+    setLabels(Object.keys(counts));
+    setDataCounts(counts);
+    if (options.mode === 'replace') setIsTrained(false);
+
+    setCsvReport({
+      ...report,
+      merge: {
+        mode: options.mode,
+        added: result.added,
+        duplicates: result.duplicates,
+        skipDuplicates: options.skipDuplicates,
+        skipped: result.skipped
+      }
+    });
+  };
+
+  const importCSV = async (file: File) => {
+    try {
+      const parsed = parseDataset(await file.text(), extractor, file.name, task === 'regression' ? targets.map(t => t.name) : []);
+
+      if (parsed.samples.length === 0) {
+        // Keep the current dataset - the report explains why nothing was usable
+        setCsvReport(parsed.report);
+      } else if (trainingDataRef.current.length === 0) {
+        commitImport(parsed, { mode: 'replace', labelMap: identityMapping(parsed.report.labels), skipDuplicates: false });
+      } else {
+        // Existing data - let the user choose append / replace and map labels first
+        setCsvReport(null);
+        setPendingImport(parsed);
+      }
+    } catch (error) {
+      console.error("Error importing CSV:", error);
+      alert(error instanceof Error ? `Failed to import CSV:\n${error.message}` : "Failed to import CSV file. Please check the file format.");
+    }
+  };
+
+  const applyImport = (options: MergeOptions) => {
+    if (!pendingImport) return;
+    commitImport(pendingImport, options);
+    setPendingImport(null);
+  };
+
+  const getSnapshot = async (): Promise<TrainerSnapshot> => ({
+    extractorId: extractor.id,
+    labels,
+    samples: trainingDataRef.current,
+    settings: { task, targets, backend, matchThreshold, minConfidence, backgroundLabel, smoothing, knn, epochs, batchSize, learningRate, validationSplit, schedule, architecture },
+    model: network && isTrained ? await exportModelFiles(network) : null
+  });
+
+  const restoreSnapshot = (snapshot: TrainerSnapshot) => {
+    const samples = snapshot.samples.filter(s => s.inputs.length === extractor.inputSize);
+    const counts: Record<string, number> = {};
+    snapshot.labels.forEach(label => { counts[label] = 0; });
+    samples.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+
+    trainingDataRef.current = samples;
+    setLabels(Object.keys(counts));
+    setDataCounts(counts);
+
+    // Missing fields (older or hand-edited snapshots) fall back to the defaults
+    const settings: TrainerSettings = { ...DEFAULT_TRAINER_SETTINGS, ...snapshot.settings };
+    const restoredTargets = settings.targets?.length ? settings.targets : DEFAULT_REGRESSION_TARGETS;
+    setTaskState(settings.task);
+    setTargetsState(restoredTargets);
+    setTargetValues(restoredTargets.map(t => t.min));
+    setBackend(settings.backend);
+    setMatchThreshold(settings.matchThreshold);
+    setMinConfidence(settings.minConfidence);
+    setBackgroundLabel(settings.backgroundLabel);
+    setSmoothing({ ...DEFAULT_SMOOTHING_OPTIONS, ...settings.smoothing });
+    setKnn({ ...DEFAULT_KNN_OPTIONS, ...settings.knn });
+    setEpochs(settings.epochs);
+    setBatchSize(settings.batchSize);
+    setLearningRate(settings.learningRate);
+    setValidationSplit(settings.validationSplit);
+    setSchedule({ ...DEFAULT_TRAINING_SCHEDULE, ...settings.schedule });
+    setArchitecture(settings.architecture?.length ? settings.architecture : DEFAULT_ARCHITECTURE);
+
+    setNetwork(null);
+    setIsTrained(false);
+    setEvaluation(null);
+    setRegressionEvaluation(null);
+    setTrainingLogs([]);
+    setTrainingMarkers([]);
+
+    if (snapshot.model) {
+      setIsLoading(true);
+      try {
+        loadNetwork(
+          new Blob([JSON.stringify(snapshot.model.modelJson)], { type: 'application/json' }),
+          new Blob([JSON.stringify(snapshot.model.metadata)], { type: 'application/json' }),
+          new Blob([snapshot.model.weights]),
+          () => {},
+          getRegressionOutputs(snapshot.model.metadata) ?? undefined
+        );
+      } catch (error) {
+        console.error("Error restoring model:", error);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const clearWorkspace = () => {
+    resetWorkspace(); // autosave then overwrites the stored snapshot with the empty workspace
+  };
+
+  // Classes and target values don't mix - switching task starts from an empty workspace
+  const setTask = (value: TrainerTask) => {
+    if (value === task) return;
+    resetWorkspace();
+    setTaskState(value);
+    if (value === 'regression' && backend === 'templates') setBackend('knn');
+  };
+
+  // Adding or removing a target changes the network's outputs - the trained model no longer fits
+  const setTargets = (value: RegressionTarget[]) => {
+    if (value.length !== targets.length) {
+      setNetwork(null);
+      setIsTrained(false);
+      setRegressionValues(null);
+      setRegressionEvaluation(null);
+    }
+    setTargetsState(value);
+    setTargetValues(value.map((target, i) => clampTarget(targetValues[i] ?? target.min, target)));
+  };
+
+  /* ---------- IndexedDB autosave ---------- */
+
+  // Extractor whose stored snapshot has been restored - nothing is saved before that,
+  // otherwise the empty state after a reset would overwrite the stored workspace
+  const hydratedIdRef = useRef<string | null>(null);
+  const cancelHydrationRef = useRef<(() => void) | null>(null);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const autosave = () => {
+    autosaveTimerRef.current = null;
+    // Wait for training / model loading to finish so the weights are saved too
+    if (hydratedIdRef.current !== extractor.id || isTraining || isLoading) return;
+    getSnapshot()
+      .then(saveTrainerSnapshot)
+      .catch(error => console.error("Failed to autosave trainer:", error));
+  };
+
+  // Updated after commit (not during render) so cleanups still see the previous render's state
+  const autosaveRef = useRef(autosave);
+  useEffect(() => {
+    autosaveRef.current = autosave;
+  });
+
+  const flushAutosave = () => {
+    if (autosaveTimerRef.current === null) return;
+    clearTimeout(autosaveTimerRef.current);
+    autosaveRef.current();
+  };
+
+  useEffect(() => {
+    if (autosaveTimerRef.current !== null) clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = setTimeout(() => autosaveRef.current(), AUTOSAVE_DELAY);
+  }, [labels, dataCounts, network, isTrained, isTraining, isLoading, task, targets, backend, matchThreshold, minConfidence, backgroundLabel, smoothing, knn, epochs, batchSize, learningRate, validationSplit, schedule, architecture]);
+
+  // Restore the stored workspace for this extractor; save pending changes before switching away or unmounting
+  useEffect(() => {
+    let cancelled = false;
+    hydratedIdRef.current = null;
+    cancelHydrationRef.current = () => { cancelled = true; };
+
+    const carried = carryOverRef.current;
+    carryOverRef.current = null;
+    if (carried) {
+      // Samples without stored keypoints can't be converted to the new features
+      const samples = reextractSamples(carried.samples, extractor).filter((s): s is TrainingSample => s !== null);
+      const counts: Record<string, number> = {};
+      carried.labels.forEach(label => { counts[label] = 0; });
+      samples.forEach(({ label }) => { counts[label] = (counts[label] || 0) + 1; });
+
+      trainingDataRef.current = samples;
+      setLabels(Object.keys(counts));
+      setDataCounts(counts);
+      hydratedIdRef.current = extractor.id;
+
+      if (samples.length < carried.samples.length) {
+        alert(`${carried.samples.length - samples.length} sample(s) have no stored keypoints and were left out.`);
+      }
+      return () => { flushAutosave(); };
+    }
+
+    loadTrainerSnapshot(extractor.id)
+      .then(snapshot => {
+        if (cancelled) return;
+        if (snapshot) restoreSnapshot(snapshot);
+        hydratedIdRef.current = extractor.id;
+      })
+      .catch(error => {
+        console.error("Failed to restore autosaved trainer:", error);
+        if (!cancelled) hydratedIdRef.current = extractor.id;
+      });
+
+    return () => {
+      cancelled = true;
+      flushAutosave();
+    };
+  }, [extractor.id]);
+
+  // Expose snapshot for project save (refreshed every render so it sees the latest state)
+  if (projectRef) {
+    projectRef.current = { getSnapshot };
+  }
+  useEffect(() => () => {
+    if (projectRef) projectRef.current = null;
+  }, [projectRef]);
+
+  // A project snapshot may have been saved with another extractor - switch first, then restore it below
+  useEffect(() => {
+    if (pendingSnapshot && extractorIds.includes(parseSequenceId(pendingSnapshot.extractorId).baseId)) {
+      setExtractorId(pendingSnapshot.extractorId);
+    }
+  }, [pendingSnapshot]);
+
+  // Apply a project snapshot once the matching extractor is active
+  useEffect(() => {
+    if (pendingSnapshot && pendingSnapshot.extractorId === extractor.id) {
+      // The project wins over whatever autosave is still loading
+      cancelHydrationRef.current?.();
+      hydratedIdRef.current = extractor.id;
+      restoreSnapshot(pendingSnapshot);
+      onSnapshotRestored?.();
+    }
+  }, [pendingSnapshot, extractor.id]);
+
+  return {
+    extractor,
+    labels,
+    dataCounts,
+    samples: trainingDataRef.current,
+    totalSamples,
+    sampleCount: trainingDataRef.current.length,
+    trainingLogs,
+    trainingMarkers,
+    isTraining,
+    isEvaluating,
+    isTrained,
+    isReady,
+    evaluation,
+    regressionEvaluation,
+    csvReport,
+    pendingImport,
+    isLoading,
+    classificationResult,
+    confidence,
+    personResults,
+    matchDistance,
+    rejection,
+    clipProgress,
+    clipError,
+    showDistance,
+    task,
+    targets,
+    targetValues,
+    regressionValues,
+    backend,
+    matchThreshold,
+    minConfidence,
+    backgroundLabel,
+    smoothing,
+    knn,
+    epochs,
+    batchSize,
+    learningRate,
+    validationSplit,
+    schedule,
+    architecture,
+    fineTune,
+    setTask,
+    setTargets,
+    setTargetValues,
+    setBackend,
+    setMatchThreshold,
+    setShowDistance,
+    setMinConfidence,
+    setBackgroundLabel,
+    setSmoothing,
+    setKnn,
+    setEpochs,
+    setBatchSize,
+    setLearningRate,
+    setValidationSplit,
+    setSchedule,
+    setArchitecture,
+    setFineTune,
+    addLabel,
+    collectData,
+    deleteSamples,
+    relabelSamples,
+    recomputeFeatures,
+    trainModel,
+    saveModel,
+    loadModel,
+    exportCSV,
+    importCSV,
+    applyImport,
+    cancelImport: () => setPendingImport(null),
+    dismissCsvReport: () => setCsvReport(null),
+    dismissClipError: () => setClipError(null),
+    clearWorkspace,
+    switchExtractor
+  };
+}
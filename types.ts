@@ -50,6 +50,44 @@ export interface BodyPosePrediction {
   };
 }
 
+export interface PersonBox {
+  xMin: number;
+  yMin: number;
+  width: number;
+  height: number;
+}
+
+// 跨幀保持同一個 id 的人（utils/personTracker.ts）
+export interface TrackedPerson {
+  id: number;
+  box: PersonBox;
+  prediction: BodyPosePrediction;
+}
+
+export interface PersonClassification {
+  id: number;
+  label: string;
+  confidence: number;
+}
+
+export interface LabelScore {
+  label: string;
+  confidence: number;
+}
+
+// Where a classification came from - trainers use their modality
+export type ClassificationSource = 'hand' | 'face' | 'body' | 'image' | 'object';
+
+// What every classifier passes up to App / CombinationClassifier
+export interface ClassificationResult {
+  label: string;       // reported label after unknown rejection and smoothing ('' = nothing detected)
+  confidence: number;  // of the reported label
+  scores: LabelScore[]; // every label of this frame, best first
+  timestamp: number;   // Date.now()
+  source: ClassificationSource;
+  modelId: string;     // e.g. 'neuralNetwork:hand-left', 'MobileNet'
+}
+
 export interface ImageClassifierResult {
   label: string;
   confidence: number;
@@ -67,6 +105,74 @@ export interface ObjectDetectionResult {
   confidence: number;
 }
 
+// 分類結果的時間平滑（utils/resultSmoothing.ts）
+export type SmoothingMethod = 'none' | 'majority' | 'ema';
+
+export interface SmoothingOptions {
+  method: SmoothingMethod;
+  window: number;     // majority: number of recent results that vote
+  alpha: number;      // ema: weight of the newest result (0..1)
+  minHoldMs: number;  // a label is kept at least this long before switching
+  hysteresis: number; // a new label must beat the current one by this margin (0..1)
+}
+
+// User-tunable ObjectDetector settings (saved in project files)
+export interface ObjectDetectorSettings {
+  confidenceThreshold: number;
+  iouThreshold: number;
+  labelsText: string;
+  useLetterbox: boolean;
+  smoothing?: SmoothingOptions; // top object label (missing in older projects)
+}
+
+// Where the frames fed to the detection pipeline come from
+export type InputSource =
+  | { kind: 'camera' }
+  | { kind: 'video'; file: File; loop: boolean }
+  | { kind: 'images'; files: File[]; interval: number; loop: boolean }
+  | { kind: 'session'; session: LandmarkSession; name: string; loop: boolean };
+
+// Recorded landmark predictions, t = ms since recording started
+export type LandmarkFrame =
+  | { t: number; stream: 'hand'; results: HandPosePrediction[] }
+  | { t: number; stream: 'face'; results: FaceMeshPrediction[] }
+  | { t: number; stream: 'body'; results: BodyPosePrediction[] };
+
+export interface LandmarkSession {
+  format: 'visionlab-landmark-session';
+  version: 1;
+  createdAt: string;
+  width: number;
+  height: number;
+  mirrored: boolean;
+  duration: number; // ms
+  frames: LandmarkFrame[];
+}
+
+export interface CameraSettings {
+  deviceId: string; // '' = let the browser pick by facing mode
+  width: number;
+  height: number;
+  frameRate: number;
+  facingMode: 'user' | 'environment';
+}
+
+// What the browser actually granted for the running camera stream
+export interface CameraStreamInfo {
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  mirrored: boolean; // front-facing, shown (and recorded) mirrored
+}
+
+export interface PlaybackState {
+  isPlaying: boolean;
+  position: number; // seconds for video, frame index for images
+  duration: number; // seconds for video, frame count for images
+  loop: boolean;
+}
+
 export interface ML5ImageClassifier {
   classify: (
     media: HTMLVideoElement | HTMLImageElement,
@@ -99,6 +205,30 @@ export interface TrainingOptions {
   epochs?: number;
   batchSize?: number;
   learningRate?: number;
+  validationSplit?: number;
+}
+
+// 訓練器每個 epoch 記錄的指標（驗證指標只在有驗證集時出現）
+export interface TrainingLog {
+  epoch: number;
+  loss: number;
+  acc?: number;
+  valLoss?: number;
+  valAcc?: number;
+}
+
+// 訓練曲線上的事件標記（例如 early stopping）
+export interface TrainingMarker {
+  epoch: number;
+  label: string;
+}
+
+// ml5 v1 whileTraining 回呼的第二個參數
+export interface TrainingLogs {
+  loss?: number;
+  acc?: number;
+  val_loss?: number;
+  val_acc?: number;
 }
 
 export interface ML5NeuralNetwork {
@@ -106,10 +236,12 @@ export interface ML5NeuralNetwork {
   normalizeData: () => void;
   train: (
     options: TrainingOptions, 
-    whileTraining: (epochOrLogs: any, loss?: number) => void, 
+    whileTraining: (epoch: number, logs: TrainingLogs) => void, 
     finishedTraining: () => void
   ) => void;
   classify: (inputs: number[] | any, callback: (results: any[]) => void) => void;
+  // Regression: one { label: outputName, value } per output
+  predict: (inputs: number[] | any, callback: (results: any[]) => void) => void;
   save: (name?: string) => void;
   load: (filesOrPath: any, callback?: () => void) => void;
 }
@@ -132,6 +264,9 @@ declare global {
       setBackend: (backend: 'webgl' | 'cpu' | 'webgpu' | 'wasm') => Promise<boolean>;
       ready: () => Promise<void>;
       getBackend: () => string;
+      io?: {
+        withSaveHandler: (handler: (artifacts: any) => Promise<any>) => any;
+      };
       env?: () => {
         set: (key: string, value: any) => void;
         get: (key: string) => any;
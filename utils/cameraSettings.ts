@@ -0,0 +1,79 @@
+import { CameraSettings } from "../types";
+
+/**
+ * Camera Settings Utilities
+ *
+ * 攝影機裝置、解析度、幀率與前後鏡頭設定：
+ * - 預設值與可選清單
+ * - localStorage 記憶使用者的選擇
+ * - 轉換成 getUserMedia 的 constraints
+ */
+
+const STORAGE_KEY = 'visionlab-camera-settings';
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: '',
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+  facingMode: 'user'
+};
+
+export const RESOLUTION_PRESETS = [
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 }
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+/**
+ * 從 localStorage 讀取上次的攝影機設定（缺漏欄位補預設值）
+ */
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed === 'object') {
+        return { ...DEFAULT_CAMERA_SETTINGS, ...parsed };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load camera settings from localStorage:', error);
+  }
+  return DEFAULT_CAMERA_SETTINGS;
+}
+
+export function saveCameraSettings(settings: CameraSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save camera settings to localStorage:', error);
+  }
+}
+
+/**
+ * 轉換成 getUserMedia 的 video constraints
+ *
+ * 指定 deviceId 時以裝置為準（facingMode 只在未指定裝置時使用，
+ * 兩者同時指定在部分手機上會互相衝突）
+ *
+ * @param settings - 攝影機設定
+ * @param ignoreDevice - 裝置已拔除時改用 facingMode 重試
+ */
+export function buildVideoConstraints(settings: CameraSettings, ignoreDevice = false): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {
+    width: { ideal: settings.width },
+    height: { ideal: settings.height },
+    frameRate: { ideal: settings.frameRate }
+  };
+
+  if (settings.deviceId && !ignoreDevice) {
+    constraints.deviceId = { exact: settings.deviceId };
+  } else {
+    constraints.facingMode = settings.facingMode;
+  }
+
+  return constraints;
+}
@@ -0,0 +1,308 @@
+import { FeatureExtractor, getFeatureExtractors } from "./featureExtractors";
+import { MergeMode } from "./datasetMerge";
+
+/**
+ * Dataset CSV Format (v1)
+ *
+ * 以 `#` 開頭的 metadata 行記錄資料是怎麼產生的，之後是一般的 CSV：
+ *
+ *   # format=visionlab-dataset
+ *   # version=1
+ *   # modality=face
+ *   # extractor=face-distance
+ *   # mode=distance
+ *   # dimensions=25
+ *   # appVersion=1.0.0
+ *   label,feature_1,...,feature_25
+ *   "Happy, eyes closed",0.123456,...
+ *
+ * 回歸資料另有 `# targets=volume|tilt`，label 後面接 target_volume,target_tilt 欄位
+ *
+ * - label 依 RFC 4180 加引號（含逗號、引號或前後空白時）
+ * - 沒有 metadata 的舊版 CSV 仍可匯入，只用欄位數判斷
+ * - extractor 或維度不符時整個檔案拒絕匯入，避免資料默默只匯入一半
+ */
+
+export const CSV_FORMAT = 'visionlab-dataset';
+const CSV_VERSION = 1;
+const APP_VERSION = '1.0.0'; // matches the version shown in the App header
+
+export interface CsvMetadata {
+  format?: string;
+  version?: number;
+  modality?: string;
+  extractor?: string;
+  mode?: string;
+  dimensions?: number;
+  targets?: string[];
+  appVersion?: string;
+}
+
+export interface CsvRejectedRow {
+  line: number;
+  reason: string;
+}
+
+export interface CsvImportReport {
+  fileName: string;
+  metadata: CsvMetadata | null; // null = legacy CSV without metadata header
+  accepted: number;
+  rejected: CsvRejectedRow[];
+  labels: string[];
+  // Filled in once the rows are merged into the dataset (see utils/datasetMerge.ts)
+  merge?: {
+    mode: MergeMode;
+    added: number;
+    duplicates: number;
+    skipDuplicates: boolean;
+    skipped: number;
+  };
+}
+
+interface CsvSample {
+  inputs: number[];
+  label: string;
+  targets?: number[];
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function quoteField(value: string): string {
+  return /[",\r\n]|^\s|\s$|^#/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 拆一行 CSV（支援引號與 "" 跳脫）
+ * @returns 引號沒有關閉時回傳 null
+ */
+function parseRow(line: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) return null;
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * 把檔案切成一筆筆紀錄：引號內的換行（例如多行的類別名稱）不會把一列切斷
+ * 引號數為奇數表示欄位還沒關閉，下一行接在同一筆紀錄後面；# 開頭的 metadata 行一律獨立
+ * @returns 每筆紀錄的內容與起始行號（從 1 開始）
+ */
+function splitRecords(text: string): { text: string; line: number }[] {
+  const records: { text: string; line: number }[] = [];
+  let open: { text: string; line: number } | null = null;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (open) {
+      open.text += `\n${line}`;
+    } else if (line.startsWith('#')) {
+      records.push({ text: line, line: index + 1 });
+      return;
+    } else {
+      open = { text: line, line: index + 1 };
+    }
+
+    if ((open.text.match(/"/g)?.length ?? 0) % 2 === 0) {
+      records.push(open);
+      open = null;
+    }
+  });
+
+  // Unterminated quote at the end of the file - parseRow reports it
+  if (open) records.push(open);
+  return records;
+}
+
+function parseMetadataLine(line: string, metadata: CsvMetadata) {
+  const match = line.replace(/^#\s*/, '').match(/^(\w+)\s*=\s*(.*)$/);
+  if (!match) return;
+
+  const [, key, value] = match;
+  const trimmed = value.trim();
+  if (key === 'version' || key === 'dimensions') {
+    metadata[key] = Number(trimmed);
+  } else if (key === 'format' || key === 'modality' || key === 'extractor' || key === 'mode' || key === 'appVersion') {
+    metadata[key] = trimmed;
+  } else if (key === 'targets') {
+    metadata.targets = trimmed ? trimmed.split('|') : [];
+  }
+}
+
+function describeExtractor(id: string): string {
+  return getFeatureExtractors().find(e => e.id === id)?.name ?? id;
+}
+
+/**
+ * 檔案層級的檢查，不通過就整個拒絕
+ * @throws Error 說明哪裡不符
+ */
+function checkSchema(metadata: CsvMetadata | null, columns: number, extractor: FeatureExtractor, targets: string[]) {
+  if (metadata) {
+    if (metadata.format && metadata.format !== CSV_FORMAT) {
+      throw new Error(`Unknown CSV format "${metadata.format}".`);
+    }
+    if (metadata.version && metadata.version > CSV_VERSION) {
+      throw new Error(`This CSV uses format version ${metadata.version}; this app reads up to version ${CSV_VERSION}.`);
+    }
+    if (metadata.extractor && metadata.extractor !== extractor.id) {
+      throw new Error(`This CSV was recorded with "${describeExtractor(metadata.extractor)}", but this trainer uses "${extractor.name}". Switch the trainer mode and import again.`);
+    }
+    if (metadata.dimensions && metadata.dimensions !== extractor.inputSize) {
+      throw new Error(`This CSV has ${metadata.dimensions} features per sample, but "${extractor.name}" needs ${extractor.inputSize}.`);
+    }
+    const fileTargets = metadata.targets ?? [];
+    if (fileTargets.join('|') !== targets.join('|')) {
+      throw new Error(fileTargets.length === 0
+        ? `This CSV is a classification dataset, but this trainer is in regression mode (targets: ${targets.join(', ')}).`
+        : targets.length === 0
+        ? `This CSV is a regression dataset (targets: ${fileTargets.join(', ')}). Switch the trainer to regression and import again.`
+        : `This CSV has the targets ${fileTargets.join(', ')}, but this trainer uses ${targets.join(', ')}.`);
+    }
+  }
+
+  const featureColumns = columns - 1 - targets.length;
+  if (columns > 0 && featureColumns !== extractor.inputSize) {
+    throw new Error(`The header has ${featureColumns} feature columns, but "${extractor.name}" needs ${extractor.inputSize}.`);
+  }
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * @param targets - 回歸 target 名稱；分類資料集省略
+ */
+export function serializeDataset(samples: CsvSample[], extractor: FeatureExtractor, targets: string[] = []): string {
+  const mode = extractor.id.startsWith(`${extractor.modality}-`) ? extractor.id.slice(extractor.modality.length + 1) : '';
+  const metadata = [
+    `# format=${CSV_FORMAT}`,
+    `# version=${CSV_VERSION}`,
+    `# modality=${extractor.modality}`,
+    `# extractor=${extractor.id}`,
+    ...(mode ? [`# mode=${mode}`] : []),
+    `# dimensions=${extractor.inputSize}`,
+    ...(targets.length > 0 ? [`# targets=${targets.join('|')}`] : []),
+    `# appVersion=${APP_VERSION}`
+  ];
+  const header = [
+    'label',
+    ...targets.map(name => quoteField(`target_${name}`)),
+    ...Array.from({ length: extractor.inputSize }, (_, i) => `feature_${i + 1}`)
+  ];
+
+  const rows = samples.map(({ inputs, label, targets: values = [] }) => [
+    quoteField(label),
+    ...targets.map((_, t) => (values[t] ?? 0).toFixed(6)),
+    ...inputs.map(v => v.toFixed(6))
+  ].join(','));
+  return [...metadata, header.join(','), ...rows].join('\n');
+}
+
+/**
+ * 解析 CSV 並逐行驗證
+ * @throws Error 檔案層級不符（extractor / 維度 / 格式版本）
+ */
+export function parseDataset(
+  text: string,
+  extractor: FeatureExtractor,
+  fileName: string,
+  targets: string[] = []
+): { samples: CsvSample[]; report: CsvImportReport } {
+  const records = splitRecords(text);
+  const samples: CsvSample[] = [];
+  const rejected: CsvRejectedRow[] = [];
+  const labels = new Set<string>();
+
+  let metadata: CsvMetadata | null = null;
+  let headerChecked = false;
+
+  records.forEach(({ text: line, line: lineNumber }) => {
+    if (!line.trim()) return;
+
+    // Metadata is only read before the header row
+    if (!headerChecked && line.startsWith('#')) {
+      metadata = metadata ?? {};
+      parseMetadataLine(line, metadata);
+      return;
+    }
+
+    const fields = parseRow(line);
+    if (!headerChecked) {
+      headerChecked = true;
+      const isHeader = fields?.[0]?.trim().toLowerCase() === 'label';
+      checkSchema(metadata, isHeader && fields ? fields.length : 0, extractor, targets);
+      if (isHeader) return;
+    }
+
+    if (!fields) {
+      rejected.push({ line: lineNumber, reason: 'Unterminated quote' });
+      return;
+    }
+
+    const label = fields[0].trim();
+    if (!label) {
+      rejected.push({ line: lineNumber, reason: 'Empty label' });
+      return;
+    }
+
+    const targetValues = fields.slice(1, 1 + targets.length).map(v => (v.trim() === '' ? NaN : Number(v)));
+    const badTarget = targetValues.findIndex(v => !isFinite(v));
+    if (badTarget >= 0) {
+      rejected.push({ line: lineNumber, reason: `Not a number in target_${targets[badTarget]}: "${fields[1 + badTarget]?.trim() ?? ''}"` });
+      return;
+    }
+
+    const values = fields.slice(1 + targets.length);
+    if (values.length !== extractor.inputSize) {
+      rejected.push({ line: lineNumber, reason: `Expected ${extractor.inputSize} features, found ${values.length}` });
+      return;
+    }
+
+    const inputs = values.map(v => (v.trim() === '' ? NaN : Number(v)));
+    const badColumn = inputs.findIndex(v => !isFinite(v));
+    if (badColumn >= 0) {
+      rejected.push({ line: lineNumber, reason: `Not a number in feature_${badColumn + 1}: "${values[badColumn].trim()}"` });
+      return;
+    }
+
+    samples.push(targets.length > 0 ? { inputs, label, targets: targetValues } : { inputs, label });
+    labels.add(label);
+  });
+
+  return {
+    samples,
+    report: {
+      fileName,
+      metadata,
+      accepted: samples.length,
+      rejected,
+      labels: Array.from(labels)
+    }
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Dataset Merge Utilities
+ *
+ * 合併多台電腦收集的資料集：
+ * - labelMap: 匯入的 label 對應到哪個 class（可改名或併入既有 class；null = 不匯入）
+ * - 重複判斷: label 相同且特徵在 CSV 精度 (小數 6 位) 內完全相同
+ */
+
+export type MergeMode = 'replace' | 'append';
+
+// incoming label -> target label (null = skip)
+export type LabelMapping = Record<string, string | null>;
+
+export interface MergeOptions {
+  mode: MergeMode;
+  labelMap: LabelMapping;
+  skipDuplicates: boolean;
+}
+
+export interface MergeResult<S> {
+  samples: S[];
+  added: number;
+  duplicates: number;
+  skipped: number;
+}
+
+interface MergeableSample {
+  inputs: number[];
+  label: string;
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+const sampleKey = (label: string, inputs: number[]) =>
+  `${label}\u0000${inputs.map(v => v.toFixed(6)).join(',')}`;
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+export function identityMapping(labels: string[]): LabelMapping {
+  return Object.fromEntries(labels.map(label => [label, label]));
+}
+
+/**
+ * 合併資料集（append 時先保留既有樣本，再依序加入匯入的樣本）
+ */
+export function mergeSamples<S extends MergeableSample>(existing: S[], incoming: S[], options: MergeOptions): MergeResult<S> {
+  const base = options.mode === 'append' ? existing : [];
+  const seen = new Set(base.map(s => sampleKey(s.label, s.inputs)));
+  const samples = [...base];
+  let duplicates = 0;
+  let skipped = 0;
+
+  incoming.forEach(sample => {
+    const mapped = options.labelMap[sample.label];
+    const label = mapped === undefined ? sample.label : mapped?.trim();
+    if (!label) {
+      skipped++;
+      return;
+    }
+
+    const key = sampleKey(label, sample.inputs);
+    if (seen.has(key)) {
+      duplicates++;
+      if (options.skipDuplicates) return;
+    }
+
+    seen.add(key);
+    samples.push({ ...sample, label });
+  });
+
+  return {
+    samples,
+    added: samples.length - base.length,
+    duplicates,
+    skipped
+  };
+}
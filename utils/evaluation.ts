@@ -0,0 +1,154 @@
+/**
+ * Model Evaluation Utilities
+ *
+ * 訓練前切出驗證集，訓練後用驗證集計算：
+ * - Overall accuracy
+ * - 每個類別的 precision / recall
+ * - Confusion matrix（列 = 實際類別，行 = 預測類別）
+ */
+
+export interface EvaluationPrediction {
+  index: number;      // 在完整資料集中的索引
+  actual: string;
+  predicted: string;
+  confidence: number;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  support: number;    // 驗證集中該類別的樣本數
+}
+
+export interface EvaluationResult {
+  labels: string[];
+  matrix: number[][];
+  perClass: ClassMetrics[];
+  accuracy: number;
+  trainCount: number;
+  predictions: EvaluationPrediction[];
+}
+
+// Regression models: mean absolute error per target on the held-out samples
+export interface RegressionEvaluation {
+  targets: string[];
+  mae: number[];
+  count: number;
+  trainCount: number;
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * Fisher-Yates 洗牌（回傳新陣列）
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * 分層切分（每個類別各自依比例取驗證樣本，且每類至少留 1 筆訓練）
+ *
+ * @param labels - 每個樣本的類別
+ * @param ratio - 驗證集比例 (0 ~ 0.5)
+ * @returns 訓練集與驗證集的樣本索引
+ */
+export function splitDataset(labels: string[], ratio: number): { train: number[]; validation: number[] } {
+  const byLabel = new Map<string, number[]>();
+  labels.forEach((label, index) => {
+    if (!byLabel.has(label)) byLabel.set(label, []);
+    byLabel.get(label)!.push(index);
+  });
+
+  const train: number[] = [];
+  const validation: number[] = [];
+
+  byLabel.forEach(indices => {
+    const shuffled = shuffle(indices);
+    const count = Math.min(Math.floor(shuffled.length * ratio), shuffled.length - 1);
+    validation.push(...shuffled.slice(0, Math.max(0, count)));
+    train.push(...shuffled.slice(Math.max(0, count)));
+  });
+
+  return { train, validation };
+}
+
+/**
+ * 不分層的隨機切分（迴歸用：目標值幾乎每筆都不同，無法依類別分層），至少留 1 筆訓練
+ *
+ * @param count - 樣本數
+ * @param ratio - 驗證集比例 (0 ~ 0.5)
+ * @returns 訓練集與驗證集的樣本索引
+ */
+export function splitRandom(count: number, ratio: number): { train: number[]; validation: number[] } {
+  const shuffled = shuffle(Array.from({ length: count }, (_, i) => i));
+  const validationCount = Math.max(0, Math.min(Math.floor(count * ratio), count - 1));
+  return { train: shuffled.slice(validationCount), validation: shuffled.slice(0, validationCount) };
+}
+
+/**
+ * 由驗證結果計算 confusion matrix 與各項指標
+ */
+export function evaluatePredictions(
+  labels: string[],
+  predictions: EvaluationPrediction[],
+  trainCount: number
+): EvaluationResult {
+  // Predictions may contain labels unknown to the class list (e.g. from a loaded model)
+  const allLabels = [...labels];
+  predictions.forEach(p => {
+    if (!allLabels.includes(p.actual)) allLabels.push(p.actual);
+    if (!allLabels.includes(p.predicted)) allLabels.push(p.predicted);
+  });
+
+  const indexOf = new Map(allLabels.map((label, i) => [label, i]));
+  const matrix = allLabels.map(() => allLabels.map(() => 0));
+
+  predictions.forEach(p => {
+    matrix[indexOf.get(p.actual)!][indexOf.get(p.predicted)!]++;
+  });
+
+  const perClass = allLabels.map((label, i) => {
+    const truePositive = matrix[i][i];
+    const support = matrix[i].reduce((a, b) => a + b, 0);
+    const predictedCount = matrix.reduce((sum, row) => sum + row[i], 0);
+    return {
+      label,
+      precision: predictedCount > 0 ? truePositive / predictedCount : 0,
+      recall: support > 0 ? truePositive / support : 0,
+      support
+    };
+  });
+
+  const correct = predictions.filter(p => p.actual === p.predicted).length;
+
+  return {
+    labels: allLabels,
+    matrix,
+    perClass,
+    accuracy: predictions.length > 0 ? correct / predictions.length : 0,
+    trainCount,
+    predictions
+  };
+}
+
+export function evaluateRegression(
+  targets: string[],
+  actual: number[][],
+  predicted: number[][],
+  trainCount: number
+): RegressionEvaluation {
+  const mae = targets.map((_, t) => {
+    const errors = actual.map((values, i) => Math.abs(values[t] - (predicted[i]?.[t] ?? 0)));
+    return errors.length > 0 ? errors.reduce((sum, e) => sum + e, 0) / errors.length : 0;
+  });
+  return { targets, mae, count: actual.length, trainCount };
+}
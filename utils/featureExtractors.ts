@@ -0,0 +1,331 @@
+import { HandPosePrediction, FaceMeshPrediction, BodyPosePrediction } from "../types";
+import { getNormalizedHandVector, getTwoHandVector, pickHand } from "./handUtils";
+import { getNormalizedBodyVector } from "./bodyUtils";
+import { getFaceDistanceFeatures, getNormalizedFacePoseVector, getHybridFaceVector } from "./faceUtils";
+
+/**
+ * Feature Extractor Registry
+ *
+ * 訓練器共用核心 (useTrainer) 透過 extractor 描述子取得特徵，
+ * 新增一種模態只需要註冊一個 extractor，不用再複製整個訓練器
+ */
+
+export type Modality = 'hand' | 'face' | 'body';
+
+/**
+ * 從特徵向量還原的骨架（資料瀏覽器縮圖用）
+ */
+export interface SamplePreview {
+  points: { x: number; y: number }[];
+  connections: [number, number][];
+}
+
+export interface FeatureExtractor<T = any> {
+  id: string;
+  modality: Modality;
+  name: string;
+  inputSize: number;
+  /**
+   * 從目前這一幀的所有預測結果取出特徵向量
+   * @returns 特徵向量；沒有可用資料時回傳 null
+   */
+  extract: (predictions: T[]) => number[] | null;
+  /**
+   * 由特徵向量還原可繪製的骨架；無法還原（例如距離特徵）時省略，縮圖改畫特徵長條圖
+   */
+  preview?: (inputs: number[]) => SamplePreview | null;
+  /**
+   * 主體在畫面中的位置與大小（sequence 模式用來算移動軌跡）；省略時取第一個預測的外框
+   */
+  anchor?: (predictions: T[]) => Anchor | null;
+  /**
+   * 有值表示這是 sequence extractor：extract 收到的是連續 frames 筆「每幀的預測結果」
+   */
+  sequence?: SequenceInfo;
+}
+
+export interface Anchor {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface SequenceInfo {
+  baseId: string;
+  frames: number;
+  frameInterval: number; // ms
+}
+
+// 10 fps - a 20-frame clip covers 2 seconds
+export const SEQUENCE_FRAME_INTERVAL = 100;
+export const SEQUENCE_LENGTHS = [10, 20, 30];
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [0, 9], [9, 10], [10, 11], [11, 12],
+  [0, 13], [13, 14], [14, 15], [15, 16],
+  [0, 17], [17, 18], [18, 19], [19, 20]
+];
+
+const BODY_CONNECTIONS: [number, number][] = [
+  [5, 6], [5, 7], [7, 9], [6, 8], [8, 10],
+  [5, 11], [6, 12], [11, 12],
+  [11, 13], [13, 15], [12, 14], [14, 16],
+  [0, 1], [0, 2], [1, 3], [2, 4]
+];
+
+// Center and diagonal of the keypoint bounding box
+function getKeypointAnchor(prediction: { keypoints?: { x: number; y: number }[] } | undefined): Anchor | null {
+  const keypoints = prediction?.keypoints;
+  if (!Array.isArray(keypoints) || keypoints.length === 0) return null;
+
+  const xs = keypoints.map(p => p.x);
+  const ys = keypoints.map(p => p.y);
+  const [xMin, xMax, yMin, yMax] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2, size: Math.hypot(xMax - xMin, yMax - yMin) };
+}
+
+function toPoints(inputs: number[]): { x: number; y: number }[] {
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i + 1 < inputs.length; i += 2) {
+    points.push({ x: inputs[i], y: inputs[i + 1] });
+  }
+  return points;
+}
+
+/* ======================
+ * Built-in Extractors
+ * ====================== */
+
+const handExtractor: FeatureExtractor<HandPosePrediction> = {
+  id: 'hand',
+  modality: 'hand',
+  name: 'Hand (40)',
+  inputSize: 40, // 20 keypoints * 2 (x, y) - 移除手腕坐標 (總是 0,0)
+  extract: (predictions) => predictions.length > 0 ? getNormalizedHandVector(predictions[0]) : null,
+  // 手腕在正規化後固定是 (0, 0)，特徵中省略了，這裡補回來
+  preview: (inputs) => ({ points: [{ x: 0, y: 0 }, ...toPoints(inputs)], connections: HAND_CONNECTIONS })
+};
+
+const createSingleHandExtractor = (side: HandPosePrediction['handedness']): FeatureExtractor<HandPosePrediction> => ({
+  id: `hand-${side.toLowerCase()}`,
+  modality: 'hand',
+  name: `${side} hand (40)`,
+  inputSize: 40,
+  extract: (predictions) => {
+    const hand = pickHand(predictions, side);
+    return hand ? getNormalizedHandVector(hand) : null;
+  },
+  preview: handExtractor.preview,
+  anchor: (predictions) => getKeypointAnchor(pickHand(predictions, side) ?? undefined)
+});
+
+const bothHandsExtractor: FeatureExtractor<HandPosePrediction> = {
+  id: 'hand-both',
+  modality: 'hand',
+  name: 'Both hands (84)',
+  inputSize: 84, // (40 + presence) * 2 + relative wrist position (dx, dy)
+  extract: getTwoHandVector,
+  // 左手畫在左邊、右手往右移；不存在的手不畫
+  preview: (inputs) => {
+    const points: { x: number; y: number }[] = [];
+    const connections: [number, number][] = [];
+    [0, 41].forEach((offset, slot) => {
+      if (!inputs[offset + 40]) return;
+      const base = points.length;
+      points.push(...[{ x: 0, y: 0 }, ...toPoints(inputs.slice(offset, offset + 40))].map(p => ({ x: p.x + slot * 2.5, y: p.y })));
+      connections.push(...HAND_CONNECTIONS.map(([a, b]): [number, number] => [a + base, b + base]));
+    });
+    return points.length > 0 ? { points, connections } : null;
+  }
+};
+
+const bodyExtractor: FeatureExtractor<BodyPosePrediction> = {
+  id: 'body',
+  modality: 'body',
+  name: 'Body (34)',
+  inputSize: 34, // 17 keypoints * 2 (x, y)
+  extract: (predictions) => predictions.length > 0 ? getNormalizedBodyVector(predictions[0]) : null,
+  preview: (inputs) => ({ points: toPoints(inputs), connections: BODY_CONNECTIONS })
+};
+
+const faceDistanceExtractor: FeatureExtractor<FaceMeshPrediction> = {
+  id: 'face-distance',
+  modality: 'face',
+  name: 'Distance (25)',
+  inputSize: 25,
+  extract: (predictions) => predictions.length > 0 ? getFaceDistanceFeatures(predictions[0]) : null
+};
+
+const facePoseExtractor: FeatureExtractor<FaceMeshPrediction> = {
+  id: 'face-pose',
+  modality: 'face',
+  name: 'Pose (3)',
+  inputSize: 3,
+  extract: (predictions) => predictions.length > 0 ? getNormalizedFacePoseVector(predictions[0]) : null
+};
+
+const faceHybridExtractor: FeatureExtractor<FaceMeshPrediction> = {
+  id: 'face-hybrid',
+  modality: 'face',
+  name: 'Hybrid (28)',
+  inputSize: 28, // 25 distance + 3 pose
+  extract: (predictions) => predictions.length > 0 ? getHybridFaceVector(predictions[0]) : null
+};
+
+/* ======================
+ * Sequence Extractors
+ * ====================== */
+
+const SEQUENCE_SEPARATOR = '@';
+
+export function toSequenceId(baseId: string, frames: number): string {
+  return frames > 0 ? `${baseId}${SEQUENCE_SEPARATOR}${frames}` : baseId;
+}
+
+/**
+ * 拆開 sequence id（"body@20" → body, 20）；一般 id 的 frames 為 0
+ */
+export function parseSequenceId(id: string): { baseId: string; frames: number } {
+  const [baseId, frames] = id.split(SEQUENCE_SEPARATOR);
+  return { baseId, frames: Number(frames) || 0 };
+}
+
+/**
+ * 把單幀 extractor 包成固定長度的片段特徵：
+ * 每幀 = 單幀特徵 + 相對第一幀的位移 (dx, dy)，以第一幀主體大小標準化
+ * （單幀特徵已去掉平移，沒有位移的話揮手、滑動就學不到）
+ * 缺少的幀沿用前一個有效幀；有效幀不到一半時回傳 null
+ */
+function createSequenceExtractor(base: FeatureExtractor, frames: number): FeatureExtractor<any[]> {
+  const frameSize = base.inputSize + 2;
+  const anchorOf = base.anchor ?? ((predictions: any[]) => getKeypointAnchor(predictions[0]));
+
+  return {
+    id: toSequenceId(base.id, frames),
+    modality: base.modality,
+    name: `${base.name.replace(/\s*\(\d+\)$/, '')} · ${frames}-frame motion (${frames * frameSize})`,
+    inputSize: frames * frameSize,
+    sequence: { baseId: base.id, frames, frameInterval: SEQUENCE_FRAME_INTERVAL },
+    extract: (clip) => {
+      if (clip.length !== frames || !clip.every(Array.isArray)) return null;
+
+      const vectors = clip.map(predictions => {
+        const inputs = predictions.length > 0 ? base.extract(predictions) : null;
+        return inputs && inputs.length === base.inputSize ? inputs : null;
+      });
+      const anchors = clip.map(predictions => (predictions.length > 0 ? anchorOf(predictions) : null));
+      if (vectors.filter(Boolean).length < frames / 2) return null;
+
+      const origin = anchors.find(a => a && a.size > 0);
+      if (!origin) return null;
+
+      const features: number[] = [];
+      let lastVector = vectors.find(Boolean)!;
+      let lastOffset = [0, 0];
+      clip.forEach((_, i) => {
+        const anchor = anchors[i];
+        if (vectors[i]) lastVector = vectors[i]!;
+        if (vectors[i] && anchor) {
+          lastOffset = [(anchor.x - origin.x) / origin.size, (anchor.y - origin.y) / origin.size];
+        }
+        features.push(...lastVector, ...lastOffset);
+      });
+      return features;
+    },
+    // 最後一幀的姿勢
+    preview: base.preview && ((inputs) => base.preview!(inputs.slice(-frameSize, -2)))
+  };
+}
+
+/* ======================
+ * Raw Keypoint Preview
+ * ====================== */
+
+/**
+ * 由樣本保存的原始預測畫出骨架（與 extractor 無關，face 只畫點）
+ */
+export function previewPredictions(modality: Modality, predictions: any[]): SamplePreview | null {
+  // Motion clip: last frame's skeleton plus the path the subject moved along
+  if (predictions.length > 0 && predictions.every(Array.isArray)) {
+    const lastFrame = [...predictions].reverse().find(frame => frame.length > 0) ?? [];
+    const preview = previewPredictions(modality, lastFrame) ?? { points: [], connections: [] };
+    const trail = predictions
+      .map(frame => getKeypointAnchor(frame[0]))
+      .filter((a): a is Anchor => a !== null);
+
+    const base = preview.points.length;
+    preview.points.push(...trail.map(({ x, y }) => ({ x, y })));
+    preview.connections.push(...trail.slice(1).map((_, i): [number, number] => [base + i, base + i + 1]));
+    return preview.points.length > 0 ? preview : null;
+  }
+
+  const points: { x: number; y: number }[] = [];
+  const connections: [number, number][] = [];
+
+  // Every detected hand / person, in image coordinates
+  predictions.forEach(prediction => {
+    const keypoints = prediction?.keypoints;
+    if (!Array.isArray(keypoints) || keypoints.length === 0) return;
+
+    const base = points.length;
+    const skeleton = modality === 'hand' && keypoints.length === 21 ? HAND_CONNECTIONS
+      : modality === 'body' && keypoints.length === 17 ? BODY_CONNECTIONS // MoveNet layout only
+      : [];
+    points.push(...keypoints.map(({ x, y }) => ({ x, y })));
+    connections.push(...skeleton.map(([a, b]): [number, number] => [a + base, b + base]));
+  });
+
+  return points.length > 0 ? { points, connections } : null;
+}
+
+const registry = new Map<string, FeatureExtractor>();
+
+/* ======================
+ * Registry API
+ * ====================== */
+
+export function registerFeatureExtractor(extractor: FeatureExtractor): void {
+  if (registry.has(extractor.id)) {
+    console.warn(`Feature extractor "${extractor.id}" is already registered and will be replaced`);
+  }
+  registry.set(extractor.id, extractor);
+}
+
+/**
+ * @throws Error 當 id 未註冊
+ */
+export function getFeatureExtractor<T = any>(id: string): FeatureExtractor<T> {
+  // Sequence variants are created on first use from their single-frame extractor
+  const { baseId, frames } = parseSequenceId(id);
+  if (frames > 0 && !registry.has(id) && registry.has(baseId)) {
+    registry.set(id, createSequenceExtractor(registry.get(baseId)!, frames));
+  }
+
+  const extractor = registry.get(id);
+  if (!extractor) {
+    throw new Error(`Unknown feature extractor: ${id}`);
+  }
+  return extractor as FeatureExtractor<T>;
+}
+
+export function getFeatureExtractors(modality?: Modality): FeatureExtractor[] {
+  const all = Array.from(registry.values());
+  return modality ? all.filter(e => e.modality === modality) : all;
+}
+
+[
+  handExtractor,
+  createSingleHandExtractor('Left'),
+  createSingleHandExtractor('Right'),
+  bothHandsExtractor,
+  bodyExtractor,
+  faceDistanceExtractor,
+  facePoseExtractor,
+  faceHybridExtractor
+].forEach(registerFeatureExtractor);
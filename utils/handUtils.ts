@@ -7,6 +7,7 @@ import { HandPosePrediction } from "../types";
  * - Translation: 以手腕為中心
  * - Scale: 最大距離標準化
  * - Rotation: 中指 MCP 對齊到 X 軸
+ * - 左手 / 右手 / 雙手 (handedness) 特徵
  */
 
 /* ======================
@@ -17,8 +18,16 @@ function safeNumber(v: number): number {
   return Number.isFinite(v) ? v : 0;
 }
 
+/**
+ * 手的大小：關鍵點到手腕的最大距離（與 getNormalizedHandVector 的 scale 相同）
+ */
+function getHandScale(hand: HandPosePrediction): number {
+  const wrist = hand.keypoints[0];
+  return Math.max(...hand.keypoints.map(kp => Math.hypot(kp.x - wrist.x, kp.y - wrist.y)));
+}
+
 /* ======================
- * Main Export Function
+ * Main Export Functions
  * ====================== */
 
 /**
@@ -113,6 +122,51 @@ export function getNormalizedHandVector(hand: HandPosePrediction): number[] {
     : new Array(VECTOR_SIZE).fill(0);
 }
 
+/**
+ * 依 handedness 取出某一隻手（同一側有多隻時取分數最高的）
+ */
+export function pickHand(hands: HandPosePrediction[], side: HandPosePrediction['handedness']): HandPosePrediction | null {
+  return hands
+    .filter(hand => hand?.handedness === side)
+    .reduce<HandPosePrediction | null>((best, hand) => (!best || hand.score > best.score ? hand : best), null);
+}
+
+/**
+ * 雙手特徵向量
+ *
+ * [左手 40, 左手存在旗標, 右手 40, 右手存在旗標, 右手腕相對左手腕 dx, dy]
+ * - 缺少的手以 0 填補，旗標為 0
+ * - 相對位置以兩手平均大小標準化，只有一隻手時為 0
+ * - handedness 重複時（模型偶爾兩隻都判成同一側），多出來的手補到空的那一側
+ *
+ * @returns 84 維向量；畫面中沒有手時回傳 null
+ */
+export function getTwoHandVector(hands: HandPosePrediction[]): number[] | null {
+  const valid = hands.filter(hand => hand?.keypoints?.length === 21);
+  if (valid.length === 0) return null;
+
+  let left = pickHand(valid, 'Left');
+  let right = pickHand(valid, 'Right');
+  const extra = valid.find(hand => hand !== left && hand !== right) ?? null;
+  if (!left) left = extra;
+  else if (!right) right = extra;
+
+  const handFeatures = (hand: HandPosePrediction | null) =>
+    hand ? [...getNormalizedHandVector(hand), 1] : [...new Array(40).fill(0), 0];
+
+  let dx = 0;
+  let dy = 0;
+  if (left && right) {
+    const scale = (getHandScale(left) + getHandScale(right)) / 2;
+    if (isFinite(scale) && scale > 1e-6) {
+      dx = safeNumber((right.keypoints[0].x - left.keypoints[0].x) / scale);
+      dy = safeNumber((right.keypoints[0].y - left.keypoints[0].y) / scale);
+    }
+  }
+
+  return [...handFeatures(left), ...handFeatures(right), dx, dy];
+}
+
 /**
  * @deprecated 使用 getNormalizedHandVector 代替
  * 保留此函數以向後兼容
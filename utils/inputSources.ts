@@ -0,0 +1,190 @@
+import { PlaybackState } from "../types";
+
+/**
+ * Input Source Utilities
+ *
+ * 將非攝影機的輸入來源轉換成 <video> 可播放的媒體：
+ * - 影片檔 (MP4 / WebM)：直接使用 object URL
+ * - 圖片資料夾：繪製到 canvas，再以 captureStream() 輸出成 MediaStream
+ *
+ * 如此 FaceMesh / HandPose / BodyPose / ImageClassifier / ObjectDetector
+ * 都能沿用同一個 videoRef，不需要知道畫面實際來自哪裡
+ */
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif|bmp)$/i;
+const STREAM_FPS = 15;
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+}
+
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/') || /\.(mp4|webm|mov|ogv)$/i.test(file.name);
+}
+
+/**
+ * 依檔名自然排序（frame_2 排在 frame_10 前面）
+ */
+export function sortFilesByName(files: File[]): File[] {
+  return [...files].sort((a, b) => {
+    const pathA = (a as File & { webkitRelativePath?: string }).webkitRelativePath || a.name;
+    const pathB = (b as File & { webkitRelativePath?: string }).webkitRelativePath || b.name;
+    return pathA.localeCompare(pathB, undefined, { numeric: true, sensitivity: 'base' });
+  });
+}
+
+/* ======================
+ * Image Sequence Player
+ * ====================== */
+
+export interface ImageSequencePlayer {
+  stream: MediaStream;
+  play: () => void;
+  pause: () => void;
+  seek: (index: number) => void;
+  setLoop: (loop: boolean) => void;
+  getState: () => PlaybackState;
+  dispose: () => void;
+}
+
+interface ImageSequenceOptions {
+  interval: number; // ms per image
+  loop: boolean;
+  onChange?: (state: PlaybackState) => void;
+}
+
+/**
+ * 建立圖片序列播放器
+ *
+ * 所有圖片會以第一張的尺寸 letterbox 到同一個 canvas 上，
+ * 避免串流尺寸中途改變導致偵測模型的 tensor reshape 錯誤
+ *
+ * @param files - 圖片檔案（呼叫端負責排序）
+ * @param options - 每張停留時間、是否循環、狀態變化回呼
+ * @returns 可控制播放/暫停/跳轉的播放器
+ */
+export async function createImageSequencePlayer(
+  files: File[],
+  options: ImageSequenceOptions
+): Promise<ImageSequencePlayer> {
+  if (files.length === 0) {
+    throw new Error('No images to play');
+  }
+
+  const first = await createImageBitmap(files[0]);
+  const canvas = document.createElement('canvas');
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    first.close();
+    throw new Error('Unable to create canvas context');
+  }
+
+  const stream = canvas.captureStream(STREAM_FPS);
+
+  let current: ImageBitmap | null = first;
+  let index = 0;
+  let loop = options.loop;
+  let isPlaying = true;
+  let isDisposed = false;
+  let lastAdvance = performance.now();
+  let loadToken = 0;
+
+  const getState = (): PlaybackState => ({
+    isPlaying,
+    position: index,
+    duration: files.length,
+    loop
+  });
+
+  const notify = () => options.onChange?.(getState());
+
+  const draw = () => {
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!current) return;
+    const ratio = Math.min(canvas.width / current.width, canvas.height / current.height);
+    const w = current.width * ratio;
+    const h = current.height * ratio;
+    ctx.drawImage(current, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+  };
+
+  const show = async (nextIndex: number) => {
+    const token = ++loadToken;
+    index = nextIndex;
+    notify();
+    try {
+      const bitmap = await createImageBitmap(files[nextIndex]);
+      // 若期間又跳轉了，丟棄過期的圖片
+      if (isDisposed || token !== loadToken) {
+        bitmap.close();
+        return;
+      }
+      current?.close();
+      current = bitmap;
+      draw();
+    } catch (e) {
+      console.warn(`Skipping unreadable image: ${files[nextIndex].name}`, e);
+    }
+  };
+
+  // 持續重繪目前畫面，讓 captureStream 穩定輸出影格
+  const ticker = window.setInterval(() => {
+    if (isDisposed) return;
+    draw();
+    if (!isPlaying) return;
+
+    const now = performance.now();
+    if (now - lastAdvance < options.interval) return;
+    lastAdvance = now;
+
+    if (index + 1 < files.length) {
+      show(index + 1);
+    } else if (loop) {
+      show(0);
+    } else {
+      isPlaying = false;
+      notify();
+    }
+  }, 1000 / STREAM_FPS);
+
+  draw();
+
+  return {
+    stream,
+    play: () => {
+      if (index + 1 >= files.length && !loop) {
+        show(0);
+      }
+      isPlaying = true;
+      lastAdvance = performance.now();
+      notify();
+    },
+    pause: () => {
+      isPlaying = false;
+      notify();
+    },
+    seek: (target: number) => {
+      const clamped = Math.max(0, Math.min(files.length - 1, Math.round(target)));
+      lastAdvance = performance.now();
+      show(clamped);
+    },
+    setLoop: (value: boolean) => {
+      loop = value;
+      notify();
+    },
+    getState,
+    dispose: () => {
+      isDisposed = true;
+      clearInterval(ticker);
+      stream.getTracks().forEach(track => track.stop());
+      current?.close();
+      current = null;
+    }
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * K-Nearest Neighbours Classifier
+ *
+ * 直接拿資料集分類，不用訓練：收集一個樣本，下一次預測就用得到
+ * - k 個最近的樣本投票，可選距離加權（越近票越重）
+ * - 每個 class 可以設定權重，補償樣本數差很多或想讓某個 class 比較難觸發
+ */
+
+export type KnnMetric = 'euclidean' | 'manhattan' | 'cosine';
+
+export interface KnnOptions {
+  k: number;
+  metric: KnnMetric;
+  distanceWeighted: boolean;
+  classWeights: Record<string, number>; // 沒列出的 class 權重為 1
+}
+
+export const DEFAULT_KNN_OPTIONS: KnnOptions = {
+  k: 3,
+  metric: 'euclidean',
+  distanceWeighted: true,
+  classWeights: {}
+};
+
+export interface KnnResult {
+  results: { label: string; confidence: number }[]; // 每個有票的 class，由高到低
+  distance: number; // 到最近樣本的距離
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+const METRICS: Record<KnnMetric, (a: number[], b: number[]) => number> = {
+  euclidean: (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum);
+  },
+  manhattan: (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum;
+  },
+  cosine: (a, b) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    const norm = Math.sqrt(normA * normB);
+    return norm > 0 ? 1 - dot / norm : 1;
+  }
+};
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * @returns 沒有可比較的樣本時回傳 null
+ */
+export function classifyKnn(
+  samples: { inputs: number[]; label: string }[],
+  inputs: number[],
+  { k, metric, distanceWeighted, classWeights }: KnnOptions
+): KnnResult | null {
+  const distanceTo = METRICS[metric];
+  const neighbours = samples
+    .filter(sample => sample.inputs.length === inputs.length)
+    .map(sample => ({ label: sample.label, distance: distanceTo(inputs, sample.inputs) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.max(1, Math.floor(k)));
+  if (neighbours.length === 0) return null;
+
+  const votes = new Map<string, number>();
+  neighbours.forEach(({ label, distance }) => {
+    const vote = (distanceWeighted ? 1 / (distance + 1e-6) : 1) * (classWeights[label] ?? 1);
+    votes.set(label, (votes.get(label) ?? 0) + vote);
+  });
+
+  const total = Array.from(votes.values()).reduce((sum, v) => sum + v, 0);
+  const results = Array.from(votes.entries())
+    .map(([label, vote]) => ({ label, confidence: total > 0 ? vote / total : 0 }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { results, distance: neighbours[0].distance };
+}
+
+/**
+ * 回歸：k 個最近樣本的 targets 平均（距離加權時越近越重）
+ * @returns 沒有帶 targets 的樣本時回傳 null
+ */
+export function regressKnn(
+  samples: { inputs: number[]; targets?: number[] }[],
+  inputs: number[],
+  { k, metric, distanceWeighted }: KnnOptions
+): { values: number[]; distance: number } | null {
+  const distanceTo = METRICS[metric];
+  const neighbours = samples
+    .filter(sample => sample.inputs.length === inputs.length && sample.targets)
+    .map(sample => ({ targets: sample.targets!, distance: distanceTo(inputs, sample.inputs) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.max(1, Math.floor(k)));
+  if (neighbours.length === 0) return null;
+
+  const weights = neighbours.map(({ distance }) => (distanceWeighted ? 1 / (distance + 1e-6) : 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const values = neighbours[0].targets.map((_, t) =>
+    neighbours.reduce((sum, { targets }, i) => sum + (targets[t] ?? 0) * weights[i], 0) / total
+  );
+
+  return { values, distance: neighbours[0].distance };
+}
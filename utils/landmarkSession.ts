@@ -0,0 +1,306 @@
+import {
+  LandmarkFrame,
+  LandmarkSession,
+  PlaybackState,
+  HandPosePrediction,
+  FaceMeshPrediction,
+  BodyPosePrediction
+} from "../types";
+
+/**
+ * Landmark Session Utilities
+ *
+ * 錄製與重播 HandPose / FaceMesh / BodyPose 的預測串流：
+ * - Recorder: 將每次偵測結果加上時間戳記存起來
+ * - 檔案格式: JSON（單一物件）或 NDJSON（第一行 header，之後每行一個 frame）
+ * - Player: 依原始時間間隔把 frame 餵回同一組 callback，讓訓練器與疊圖行為與現場一致
+ */
+
+const SESSION_FORMAT = 'visionlab-landmark-session';
+const NOTIFY_INTERVAL_MS = 100;
+
+type LandmarkStream = LandmarkFrame['stream'];
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+/**
+ * 只保留訓練器與疊圖會用到的欄位（ml5 結果還附帶重複的部位陣列，會讓檔案膨脹數倍）
+ */
+function sanitizeKeypoints<T extends { x: number; y: number }>(keypoints: T[] | undefined): T[] {
+  if (!Array.isArray(keypoints)) return [];
+  return keypoints.map(kp => {
+    const point: Record<string, unknown> = { x: kp.x, y: kp.y };
+    const extra = kp as Record<string, unknown>;
+    if (typeof extra.z === 'number') point.z = extra.z;
+    if (typeof extra.confidence === 'number') point.confidence = extra.confidence;
+    if (typeof extra.name === 'string') point.name = extra.name;
+    return point as T;
+  });
+}
+
+function sanitizeFrame(stream: LandmarkStream, results: any[], t: number): LandmarkFrame {
+  const list = Array.isArray(results) ? results : [];
+
+  if (stream === 'hand') {
+    return {
+      t,
+      stream,
+      results: list.map((r): HandPosePrediction => ({
+        keypoints: sanitizeKeypoints(r?.keypoints),
+        score: r?.score ?? 0,
+        handedness: r?.handedness
+      }))
+    };
+  }
+
+  if (stream === 'face') {
+    return {
+      t,
+      stream,
+      results: list.map((r): FaceMeshPrediction => ({
+        keypoints: sanitizeKeypoints(r?.keypoints),
+        ...(r?.box ? { box: r.box } : {})
+      }))
+    };
+  }
+
+  return {
+    t,
+    stream,
+    results: list.map((r): BodyPosePrediction => ({
+      keypoints: sanitizeKeypoints(r?.keypoints),
+      ...(typeof r?.score === 'number' ? { score: r.score } : {}),
+      ...(r?.box ? { box: r.box } : {})
+    }))
+  };
+}
+
+function isFrame(value: any): value is LandmarkFrame {
+  return !!value
+    && typeof value.t === 'number'
+    && (value.stream === 'hand' || value.stream === 'face' || value.stream === 'body')
+    && Array.isArray(value.results);
+}
+
+/**
+ * 精簡一組預測結果（訓練樣本保存原始 keypoints 時也用同一套規則）
+ */
+export function sanitizePredictions(stream: LandmarkStream, results: any[]): LandmarkFrame['results'] {
+  return sanitizeFrame(stream, results, 0).results;
+}
+
+/* ======================
+ * Recorder
+ * ====================== */
+
+export interface SessionRecorder {
+  record: (stream: LandmarkStream, results: any[]) => void;
+  getFrameCount: () => number;
+  getElapsed: () => number;
+  stop: () => LandmarkSession;
+}
+
+/**
+ * 建立錄製器
+ *
+ * @param width - 來源畫面寬度（重播時作為疊圖 canvas 尺寸）
+ * @param height - 來源畫面高度
+ * @param mirrored - 錄製時畫面是否鏡像
+ */
+export function createSessionRecorder(width: number, height: number, mirrored: boolean): SessionRecorder {
+  const startedAt = performance.now();
+  const frames: LandmarkFrame[] = [];
+
+  return {
+    record: (stream, results) => {
+      frames.push(sanitizeFrame(stream, results, Math.round(performance.now() - startedAt)));
+    },
+    getFrameCount: () => frames.length,
+    getElapsed: () => performance.now() - startedAt,
+    stop: () => ({
+      format: SESSION_FORMAT,
+      version: 1,
+      createdAt: new Date().toISOString(),
+      width,
+      height,
+      mirrored,
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+      frames
+    })
+  };
+}
+
+/* ======================
+ * Serialization
+ * ====================== */
+
+export function serializeSession(session: LandmarkSession, format: 'json' | 'ndjson'): string {
+  if (format === 'json') {
+    return JSON.stringify(session);
+  }
+
+  const { frames, ...header } = session;
+  return [JSON.stringify(header), ...frames.map(frame => JSON.stringify(frame))].join('\n');
+}
+
+/**
+ * 解析 JSON 或 NDJSON 格式的 session 檔（自動判斷）
+ *
+ * @throws Error 當檔案不是 Vision Lab session
+ */
+export function parseSession(text: string): LandmarkSession {
+  let header: any = null;
+  let frames: any[] = [];
+
+  try {
+    const parsed = JSON.parse(text);
+    header = parsed;
+    frames = Array.isArray(parsed?.frames) ? parsed.frames : [];
+  } catch {
+    // Not a single JSON document - treat as NDJSON
+    const lines = text.split('\n').filter(line => line.trim());
+    if (lines.length === 0) {
+      throw new Error('Session file is empty');
+    }
+    header = JSON.parse(lines[0]);
+    frames = lines.slice(1).map(line => JSON.parse(line));
+  }
+
+  if (!header || header.format !== SESSION_FORMAT) {
+    throw new Error('Not a Vision Lab landmark session file');
+  }
+
+  const validFrames = frames.filter(isFrame).sort((a, b) => a.t - b.t);
+
+  return {
+    format: SESSION_FORMAT,
+    version: 1,
+    createdAt: header.createdAt ?? '',
+    width: Number(header.width) || 640,
+    height: Number(header.height) || 480,
+    mirrored: !!header.mirrored,
+    duration: validFrames.length > 0 ? validFrames[validFrames.length - 1].t : 0,
+    frames: validFrames
+  };
+}
+
+/* ======================
+ * Player
+ * ====================== */
+
+export interface SessionPlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  setLoop: (loop: boolean) => void;
+  getState: () => PlaybackState;
+  dispose: () => void;
+}
+
+interface SessionPlayerOptions {
+  loop: boolean;
+  onFrame: (frame: LandmarkFrame) => void;
+  onChange?: (state: PlaybackState) => void;
+}
+
+/**
+ * 建立 session 播放器
+ *
+ * frame 依錄製時的時間戳記依序送出；跳轉時會立即補送每個串流
+ * 在目標時間點之前的最後一個 frame，使畫面與分類狀態正確
+ */
+export function createSessionPlayer(session: LandmarkSession, options: SessionPlayerOptions): SessionPlayer {
+  const { frames, duration } = session;
+
+  let loop = options.loop;
+  let isPlaying = true;
+  let isDisposed = false;
+  let position = 0; // ms
+  let cursor = 0;
+  let startedAt = performance.now();
+  let lastNotify = 0;
+
+  const getState = (): PlaybackState => ({
+    isPlaying,
+    position: position / 1000,
+    duration: duration / 1000,
+    loop
+  });
+
+  const notify = () => {
+    lastNotify = performance.now();
+    options.onChange?.(getState());
+  };
+
+  const restart = () => {
+    position = 0;
+    cursor = 0;
+    startedAt = performance.now();
+  };
+
+  const ticker = window.setInterval(() => {
+    if (isDisposed || !isPlaying) return;
+
+    position = performance.now() - startedAt;
+    while (cursor < frames.length && frames[cursor].t <= position) {
+      options.onFrame(frames[cursor]);
+      cursor++;
+    }
+
+    if (cursor >= frames.length && position >= duration) {
+      if (loop && frames.length > 0) {
+        restart();
+      } else {
+        position = duration;
+        isPlaying = false;
+        notify();
+        return;
+      }
+    }
+
+    if (performance.now() - lastNotify >= NOTIFY_INTERVAL_MS) {
+      notify();
+    }
+  }, 16);
+
+  return {
+    play: () => {
+      if (cursor >= frames.length) {
+        restart();
+      }
+      startedAt = performance.now() - position;
+      isPlaying = true;
+      notify();
+    },
+    pause: () => {
+      isPlaying = false;
+      notify();
+    },
+    seek: (seconds: number) => {
+      position = Math.max(0, Math.min(duration, seconds * 1000));
+      startedAt = performance.now() - position;
+
+      cursor = frames.findIndex(frame => frame.t > position);
+      if (cursor === -1) cursor = frames.length;
+
+      // Re-emit the latest state of each stream at the new position
+      const latest = new Map<LandmarkStream, LandmarkFrame>();
+      for (let i = 0; i < cursor; i++) {
+        latest.set(frames[i].stream, frames[i]);
+      }
+      latest.forEach(frame => options.onFrame(frame));
+      notify();
+    },
+    setLoop: (value: boolean) => {
+      loop = value;
+      notify();
+    },
+    getState,
+    dispose: () => {
+      isDisposed = true;
+      clearInterval(ticker);
+    }
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Network Architecture Utilities
+ *
+ * 訓練器的隱藏層設定，轉成 ml5 neuralNetwork 的 `layers` 選項：
+ * - 使用者只編輯隱藏層，輸出層永遠自動接在最後（分類 softmax、回歸 sigmoid，ml5 把回歸輸出正規化到 0..1）
+ * - ml5 會自動填入第一層的 inputShape 與輸出層的 units
+ */
+
+export type Activation = 'relu' | 'elu' | 'selu' | 'tanh' | 'sigmoid' | 'swish' | 'linear';
+
+export type LayerSpec =
+  | { type: 'dense'; units: number; activation: Activation }
+  | { type: 'dropout'; rate: number }
+  | { type: 'batchNormalization' };
+
+export const ACTIVATIONS: Activation[] = ['relu', 'elu', 'selu', 'tanh', 'sigmoid', 'swish', 'linear'];
+
+// ml5 classification 預設: 一層 16 units relu
+export const DEFAULT_ARCHITECTURE: LayerSpec[] = [
+  { type: 'dense', units: 16, activation: 'relu' }
+];
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function toLayerSpec(layer: any): LayerSpec | null {
+  const className = layer?.class_name;
+  const config = layer?.config ?? {};
+
+  if (className === 'Dense') {
+    const activation = ACTIVATIONS.includes(config.activation) ? config.activation : 'relu';
+    return { type: 'dense', units: Number(config.units) || 16, activation };
+  }
+  if (className === 'Dropout') {
+    return { type: 'dropout', rate: Number(config.rate) || 0 };
+  }
+  if (className === 'BatchNormalization') {
+    return { type: 'batchNormalization' };
+  }
+  return null;
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * 轉成 ml5 `layers` 選項（附上輸出層）
+ */
+export function toMl5Layers(hidden: LayerSpec[], task: 'classification' | 'regression' = 'classification'): any[] {
+  return [
+    ...hidden.map(layer => ({ ...layer })),
+    { type: 'dense', activation: task === 'regression' ? 'sigmoid' : 'softmax' }
+  ];
+}
+
+/**
+ * 計算可訓練 + 不可訓練參數總數
+ *
+ * @param inputSize - 特徵向量長度
+ * @param outputSize - 類別數
+ */
+export function countParameters(hidden: LayerSpec[], inputSize: number, outputSize: number): number {
+  let width = inputSize;
+  let total = 0;
+
+  hidden.forEach(layer => {
+    if (layer.type === 'dense') {
+      total += (width + 1) * layer.units;
+      width = layer.units;
+    } else if (layer.type === 'batchNormalization') {
+      total += width * 4; // gamma, beta, moving mean, moving variance
+    }
+  });
+
+  return total + (width + 1) * Math.max(1, outputSize);
+}
+
+/**
+ * 從 tf.js model.json 的 modelTopology 還原隱藏層設定（不含輸出層）
+ *
+ * @returns 無法辨識時回傳 null
+ */
+export function parseArchitecture(modelJson: any): LayerSpec[] | null {
+  const layers = modelJson?.modelTopology?.config?.layers ?? modelJson?.modelTopology?.model_config?.config?.layers;
+  if (!Array.isArray(layers) || layers.length < 2) return null;
+
+  const hidden = layers.slice(0, -1).map(toLayerSpec);
+  if (hidden.some(layer => layer === null)) return null;
+  return hidden as LayerSpec[];
+}
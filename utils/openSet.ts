@@ -0,0 +1,63 @@
+import { UNKNOWN_LABEL } from './templateMatcher';
+
+/**
+ * Open-set Rejection
+ *
+ * 分類器只會在訓練過的 class 之間挑一個，沒看過的姿勢也會被硬塞進某個 class。
+ * 三種方式把這些結果改成 UNKNOWN_LABEL：
+ * - 信心度門檻：最高分的 class 不夠有把握
+ * - 距離門檻（out-of-distribution）：輸入離所有收集過的樣本都太遠
+ * - 背景 class：專門收集「不是任何手勢」的樣本，預測到它時回報 unknown
+ */
+
+export interface RejectionOptions {
+  minConfidence: number;   // 0..1, 0 = off
+  maxDistance: number;     // distance to the nearest sample, 0 = off
+  backgroundLabel: string; // '' = no background class
+}
+
+export type RejectionReason = 'background' | 'confidence' | 'distance';
+
+export interface RejectionDecision {
+  label: string;      // the class, or UNKNOWN_LABEL when rejected
+  confidence: number; // 0 when rejected
+  candidate: { label: string; confidence: number } | null; // top result before rejection
+  reason: RejectionReason | null;
+}
+
+export const DEFAULT_BACKGROUND_LABEL = 'none';
+
+export const REJECTION_REASONS: Record<RejectionReason, string> = {
+  background: 'background class',
+  confidence: 'low confidence',
+  distance: 'far from the training data'
+};
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * 決定要回報最高分的 class 還是 unknown
+ * @param results - ml5 格式的結果，最高分在前
+ * @param distance - 到最近樣本的距離；沒有樣本可比時為 null（不檢查距離）
+ */
+export function applyRejection(
+  results: { label?: string; confidence?: number }[],
+  distance: number | null,
+  { minConfidence, maxDistance, backgroundLabel }: RejectionOptions
+): RejectionDecision {
+  const top = results[0];
+  if (!top) return { label: '', confidence: 0, candidate: null, reason: null };
+
+  const candidate = { label: top.label ?? '', confidence: top.confidence ?? 0 };
+  const reason: RejectionReason | null =
+    backgroundLabel && candidate.label === backgroundLabel ? 'background'
+    : minConfidence > 0 && candidate.confidence < minConfidence ? 'confidence'
+    : maxDistance > 0 && distance !== null && distance > maxDistance ? 'distance'
+    : null;
+
+  return reason
+    ? { label: UNKNOWN_LABEL, confidence: 0, candidate, reason }
+    : { ...candidate, candidate, reason };
+}
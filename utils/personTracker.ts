@@ -0,0 +1,138 @@
+import { BodyPosePrediction, PersonBox, TrackedPerson } from "../types";
+
+/**
+ * Person Tracker
+ *
+ * 替 BodyPose 的多人結果配上跨幀穩定的 id：
+ * - 先用 box IoU 配對（重疊多的優先）
+ * - IoU 不夠時改用中心點距離（以 box 對角線長度標準化），處理快速移動
+ * - 連續 maxMissedFrames 幀沒出現的人才移除，短暫遮擋不會換 id
+ */
+
+export interface PersonTrackerOptions {
+  iouThreshold: number;
+  maxDistance: number;      // 中心點距離上限（倍數 × 平均對角線長度）
+  maxMissedFrames: number;
+  minKeypointConfidence: number; // 沒有 box 時，用信心度夠的關鍵點算 box
+}
+
+export const DEFAULT_PERSON_TRACKER_OPTIONS: PersonTrackerOptions = {
+  iouThreshold: 0.3,
+  maxDistance: 0.75,
+  maxMissedFrames: 15,
+  minKeypointConfidence: 0.3
+};
+
+export interface PersonTracker {
+  /**
+   * 每次收到新的偵測結果時呼叫
+   * @returns 這一幀出現的人（依 id 排序）
+   */
+  update: (predictions: BodyPosePrediction[]) => TrackedPerson[];
+  reset: () => void;
+}
+
+interface Track {
+  id: number;
+  box: PersonBox;
+  prediction: BodyPosePrediction;
+  missed: number;
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function getPersonBox(prediction: BodyPosePrediction, minConfidence: number): PersonBox | null {
+  const box = prediction?.box;
+  if (box && box.width > 0 && box.height > 0) {
+    return { xMin: box.xMin, yMin: box.yMin, width: box.width, height: box.height };
+  }
+
+  const points = (prediction?.keypoints ?? []).filter(kp => kp.confidence >= minConfidence);
+  if (points.length < 2) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const xMin = Math.min(...xs);
+  const yMin = Math.min(...ys);
+  const width = Math.max(...xs) - xMin;
+  const height = Math.max(...ys) - yMin;
+  return width > 0 && height > 0 ? { xMin, yMin, width, height } : null;
+}
+
+function iou(a: PersonBox, b: PersonBox): number {
+  const overlapW = Math.min(a.xMin + a.width, b.xMin + b.width) - Math.max(a.xMin, b.xMin);
+  const overlapH = Math.min(a.yMin + a.height, b.yMin + b.height) - Math.max(a.yMin, b.yMin);
+  if (overlapW <= 0 || overlapH <= 0) return 0;
+
+  const intersection = overlapW * overlapH;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function centerDistance(a: PersonBox, b: PersonBox): number {
+  const dx = (a.xMin + a.width / 2) - (b.xMin + b.width / 2);
+  const dy = (a.yMin + a.height / 2) - (b.yMin + b.height / 2);
+  const diagonal = (Math.hypot(a.width, a.height) + Math.hypot(b.width, b.height)) / 2;
+  return Math.hypot(dx, dy) / Math.max(diagonal, 1e-6);
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+export function createPersonTracker(options: PersonTrackerOptions = DEFAULT_PERSON_TRACKER_OPTIONS): PersonTracker {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  return {
+    update: (predictions) => {
+      const detections = (predictions ?? [])
+        .map(prediction => ({ prediction, box: getPersonBox(prediction, options.minKeypointConfidence) }))
+        .filter((d): d is { prediction: BodyPosePrediction; box: PersonBox } => d.box !== null);
+
+      // Score every track/detection pair - IoU matches (1..2) always beat distance matches (0..1)
+      const pairs: { track: number; detection: number; score: number }[] = [];
+      tracks.forEach((track, t) => {
+        detections.forEach((detection, d) => {
+          const overlap = iou(track.box, detection.box);
+          const distance = centerDistance(track.box, detection.box);
+          const score = overlap >= options.iouThreshold ? 1 + overlap
+            : distance <= options.maxDistance ? 1 - distance / options.maxDistance
+            : -1;
+          if (score >= 0) pairs.push({ track: t, detection: d, score });
+        });
+      });
+      pairs.sort((a, b) => b.score - a.score);
+
+      // Greedy assignment, best pairs first
+      const matchedTracks = new Set<number>();
+      const matchedDetections = new Set<number>();
+      pairs.forEach(({ track, detection }) => {
+        if (matchedTracks.has(track) || matchedDetections.has(detection)) return;
+        matchedTracks.add(track);
+        matchedDetections.add(detection);
+        tracks[track] = { ...tracks[track], ...detections[detection], missed: 0 };
+      });
+
+      tracks = tracks
+        .map((track, t) => (matchedTracks.has(t) ? track : { ...track, missed: track.missed + 1 }))
+        .filter(track => track.missed <= options.maxMissedFrames);
+
+      detections.forEach((detection, d) => {
+        if (!matchedDetections.has(d)) {
+          tracks.push({ id: nextId++, ...detection, missed: 0 });
+        }
+      });
+
+      return tracks
+        .filter(track => track.missed === 0)
+        .sort((a, b) => a.id - b.id)
+        .map(({ id, box, prediction }) => ({ id, box, prediction }));
+    },
+    reset: () => {
+      tracks = [];
+      nextId = 1;
+    }
+  };
+}
@@ -0,0 +1,144 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { ObjectDetectorSettings } from "../types";
+import { TrainerSnapshot } from "../hooks/useTrainer";
+import { Modality } from "./featureExtractors";
+
+/**
+ * Vision Lab Project File (.visionlab)
+ *
+ * 一個 zip 檔打包整個課堂專案：
+ *   project.json                      - 格式資訊、訓練器設定、ObjectDetector 設定、組合規則
+ *   trainers/<modality>/dataset.json  - 訓練樣本
+ *   trainers/<modality>/model.json    - 與 ml5 network.save 相同的三個模型檔（有訓練過才有）
+ *   trainers/<modality>/model_meta.json
+ *   trainers/<modality>/model.weights.bin
+ */
+
+export const PROJECT_FORMAT = 'visionlab-project';
+export const PROJECT_EXTENSION = '.visionlab';
+
+const MODALITIES: Modality[] = ['hand', 'face', 'body'];
+
+export interface VisionLabProject {
+  trainers: Partial<Record<Modality, TrainerSnapshot>>;
+  objectDetector: ObjectDetectorSettings | null;
+  combinationRules: unknown[] | null;
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+const toJson = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+function readJson(files: Record<string, Uint8Array>, path: string): any {
+  const data = files[path];
+  if (!data) throw new Error(`Missing ${path} in project file`);
+  return JSON.parse(strFromU8(data));
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSample(value: unknown): boolean {
+  return isRecord(value) &&
+    typeof value.label === 'string' &&
+    Array.isArray(value.inputs) &&
+    value.inputs.every((n: unknown) => typeof n === 'number');
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+export function packProject(project: VisionLabProject): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  const trainers: Record<string, unknown> = {};
+
+  MODALITIES.forEach(modality => {
+    const snapshot = project.trainers[modality];
+    if (!snapshot) return;
+
+    const dir = `trainers/${modality}`;
+    const { samples, model, ...manifest } = snapshot;
+    trainers[modality] = { ...manifest, hasModel: !!model };
+    files[`${dir}/dataset.json`] = toJson(samples);
+
+    if (model) {
+      files[`${dir}/model.json`] = toJson(model.modelJson);
+      files[`${dir}/model_meta.json`] = toJson(model.metadata);
+      files[`${dir}/model.weights.bin`] = model.weights;
+    }
+  });
+
+  files['project.json'] = toJson({
+    format: PROJECT_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    trainers,
+    objectDetector: project.objectDetector,
+    combinationRules: project.combinationRules
+  });
+
+  return zipSync(files);
+}
+
+/**
+ * @throws Error 當檔案不是 Vision Lab 專案，或訓練器資料格式不正確
+ */
+export function unpackProject(data: Uint8Array): VisionLabProject {
+  const files = unzipSync(data);
+  const manifest = readJson(files, 'project.json');
+
+  if (manifest?.format !== PROJECT_FORMAT) {
+    throw new Error('Not a Vision Lab project file');
+  }
+
+  const trainers: Partial<Record<Modality, TrainerSnapshot>> = {};
+  MODALITIES.forEach(modality => {
+    const entry = manifest.trainers?.[modality];
+    if (!entry) return;
+    if (!isRecord(entry) || typeof entry.extractorId !== 'string') {
+      throw new Error(`Invalid ${modality} trainer in project.json`);
+    }
+    if (entry.settings !== undefined && !isRecord(entry.settings)) {
+      throw new Error(`Invalid ${modality} trainer settings in project.json`);
+    }
+
+    const dir = `trainers/${modality}`;
+    const samples = readJson(files, `${dir}/dataset.json`);
+    if (!Array.isArray(samples) || !samples.every(isSample)) {
+      throw new Error(`Invalid samples in ${dir}/dataset.json`);
+    }
+    const hasModel = entry.hasModel && files[`${dir}/model.weights.bin`];
+
+    trainers[modality] = {
+      extractorId: entry.extractorId,
+      labels: Array.isArray(entry.labels) ? entry.labels.filter((label: unknown) => typeof label === 'string') : [],
+      samples,
+      settings: entry.settings ?? {},
+      model: hasModel ? {
+        modelJson: readJson(files, `${dir}/model.json`),
+        metadata: readJson(files, `${dir}/model_meta.json`),
+        weights: files[`${dir}/model.weights.bin`]
+      } : null
+    };
+  });
+
+  return {
+    trainers,
+    objectDetector: manifest.objectDetector ?? null,
+    combinationRules: Array.isArray(manifest.combinationRules) ? manifest.combinationRules : null
+  };
+}
+
+export function downloadProject(project: VisionLabProject, name: string): void {
+  const blob = new Blob([packProject(project)], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name.endsWith(PROJECT_EXTENSION) ? name : `${name}${PROJECT_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,36 @@
+/**
+ * Regression Targets
+ *
+ * 回歸模式：樣本不是標 class，而是收集當下的一組數值（例如滑桿上的音量、方向盤角度）
+ * - 每個 target 有名稱與範圍，滑桿在範圍內調整
+ * - 樣本的 label 由數值產生（"0.50 / 0.20"），資料瀏覽器、CSV、合併都沿用 label 分組
+ */
+
+export type TrainerTask = 'classification' | 'regression';
+
+export interface RegressionTarget {
+  name: string;
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_REGRESSION_TARGETS: RegressionTarget[] = [{ name: 'value', min: 0, max: 1 }];
+
+export function formatTargetLabel(values: number[]): string {
+  return values.map(v => v.toFixed(2)).join(' / ');
+}
+
+export function clampTarget(value: number, { min, max }: RegressionTarget): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * ml5 把回歸模型的輸出寫在 metadata.outputs（dtype 為 number）
+ * @returns 輸出名稱；分類模型回傳 null
+ */
+export function getRegressionOutputs(metadata: any): string[] | null {
+  const outputs = metadata?.outputs;
+  if (!outputs || typeof outputs !== 'object') return null;
+  const names = Object.keys(outputs).filter(name => outputs[name]?.dtype === 'number');
+  return names.length > 0 ? names : null;
+}
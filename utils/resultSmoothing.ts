@@ -0,0 +1,130 @@
+import { SmoothingOptions } from "../types";
+
+/**
+ * Result Smoothing
+ *
+ * 每幀的分類結果會在相近的 class 之間跳來跳去，組合規則跟下游動作也跟著閃爍。
+ * 在結果送到畫面和 callback 之前先平滑：
+ * - majority：最近 window 個結果投票
+ * - ema：每個 class 的機率做指數平均
+ * - minHoldMs：換成新 label 之後至少維持這麼久
+ * - hysteresis：新 label 的分數要比目前的高出這個差距才換
+ * 沒有偵測到東西（空的結果）也當成一個 label（''），一樣要穩定下來才會回報
+ */
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  method: 'majority',
+  window: 5,
+  alpha: 0.4,
+  minHoldMs: 300,
+  hysteresis: 0.1
+};
+
+export interface SmoothedResult {
+  label: string;
+  confidence: number;
+}
+
+export interface ResultSmoother {
+  /**
+   * 每次收到新的分類結果時呼叫（最高分在前，ml5 格式）
+   * @returns 目前穩定的 label
+   */
+  update: (results: { label?: string; confidence?: number }[], options: SmoothingOptions, time?: number) => SmoothedResult;
+  reset: () => void;
+}
+
+type Scores = Record<string, number>;
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function toScores(results: { label?: string; confidence?: number }[]): Scores {
+  if (results.length === 0) return { '': 1 };
+  const scores: Scores = {};
+  results.forEach(({ label = '', confidence = 0 }) => {
+    scores[label] = Math.max(scores[label] ?? 0, confidence);
+  });
+  return scores;
+}
+
+function topLabel(scores: Scores): string {
+  let best = '';
+  let bestScore = -Infinity;
+  Object.entries(scores).forEach(([label, score]) => {
+    if (score > bestScore) {
+      best = label;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function blend(average: Scores, frame: Scores, alpha: number): Scores {
+  const weight = Math.min(1, Math.max(0, alpha));
+  const blended: Scores = {};
+  new Set([...Object.keys(average), ...Object.keys(frame)]).forEach(label => {
+    const value = weight * (frame[label] ?? 0) + (1 - weight) * (average[label] ?? 0);
+    if (value > 1e-3) blended[label] = value; // drop classes that faded out
+  });
+  return blended;
+}
+
+// Share of the window each label won, and its mean confidence over the window
+function vote(history: Scores[]): { shares: Scores; confidence: Scores } {
+  const shares: Scores = {};
+  const confidence: Scores = {};
+  history.forEach(frame => {
+    const winner = topLabel(frame);
+    shares[winner] = (shares[winner] ?? 0) + 1 / history.length;
+    Object.entries(frame).forEach(([label, value]) => {
+      confidence[label] = (confidence[label] ?? 0) + value / history.length;
+    });
+  });
+  return { shares, confidence };
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+export function createResultSmoother(): ResultSmoother {
+  let history: Scores[] = [];
+  let average: Scores = {};
+  let current: string | null = null;
+  let since = 0;
+
+  return {
+    update: (results, options, time = performance.now()) => {
+      const frame = toScores(results);
+      // Both are kept up to date so the method can change on the fly
+      history = [...history, frame].slice(-Math.max(1, Math.floor(options.window)));
+      average = current === null ? frame : blend(average, frame, options.alpha);
+
+      const { shares, confidence } = options.method === 'majority' ? vote(history)
+        : options.method === 'ema' ? { shares: average, confidence: average }
+        : { shares: frame, confidence: frame };
+
+      const candidate = topLabel(shares);
+      if (current === null) {
+        current = candidate;
+        since = time;
+      } else if (candidate !== current) {
+        const margin = (shares[candidate] ?? 0) - (shares[current] ?? 0);
+        if (margin >= options.hysteresis && time - since >= options.minHoldMs) {
+          current = candidate;
+          since = time;
+        }
+      }
+
+      return { label: current, confidence: confidence[current] ?? 0 };
+    },
+    reset: () => {
+      history = [];
+      average = {};
+      current = null;
+      since = 0;
+    }
+  };
+}
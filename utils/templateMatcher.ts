@@ -0,0 +1,106 @@
+/**
+ * Template Matcher
+ *
+ * 不需要訓練的分類器：每個樣本就是一個 template，即時輸入跟所有 template 比距離，取最近的 class
+ * - 動作片段（sequence extractor）用 DTW 對齊，快一點或慢一點做同一個動作也對得上
+ * - 單幀樣本只有一幀，DTW 就等於最近鄰的歐氏距離
+ * - 距離是每個維度的 RMS，跟特徵數量無關，門檻在不同 extractor 之間才有可比性
+ */
+
+export const UNKNOWN_LABEL = 'unknown';
+
+export interface TemplateMatchOptions {
+  frames: number;     // 每個樣本的幀數（單幀 = 1）
+  threshold: number;  // 最近距離超過門檻就回報 UNKNOWN_LABEL；0 = 不判定 unknown
+}
+
+export interface TemplateMatch {
+  label: string;
+  confidence: number;
+  distance: number; // 到最近 template 的距離
+  results: { label: string; confidence: number }[]; // 每個 class，由近到遠
+}
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function toFrames(inputs: number[], frames: number): number[][] {
+  const frameSize = Math.floor(inputs.length / frames);
+  return Array.from({ length: frames }, (_, i) => inputs.slice(i * frameSize, (i + 1) * frameSize));
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+/**
+ * Dynamic time warping with a Sakoe-Chiba band (±25% of the sequence length)
+ * @returns RMS distance per feature along the best alignment
+ */
+export function dtwDistance(a: number[][], b: number[][]): number {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return Infinity;
+
+  const band = Math.max(Math.abs(n - m), Math.ceil(Math.max(n, m) * 0.25));
+  let previous = new Array<number>(m + 1).fill(Infinity);
+  previous[0] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    const current = new Array<number>(m + 1).fill(Infinity);
+    for (let j = Math.max(1, i - band); j <= Math.min(m, i + band); j++) {
+      current[j] = squaredDistance(a[i - 1], b[j - 1]) + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    previous = current;
+  }
+
+  return Math.sqrt(previous[m] / (Math.max(n, m) * a[0].length));
+}
+
+/**
+ * 找出最接近的 template
+ * @returns 沒有 template 時回傳 null
+ */
+export function matchTemplates(
+  templates: { inputs: number[]; label: string }[],
+  inputs: number[],
+  { frames, threshold }: TemplateMatchOptions
+): TemplateMatch | null {
+  const query = toFrames(inputs, frames);
+
+  // Nearest template per class
+  const nearest = new Map<string, number>();
+  templates.forEach(template => {
+    if (template.inputs.length !== inputs.length) return;
+    const distance = dtwDistance(query, toFrames(template.inputs, frames));
+    if (distance < (nearest.get(template.label) ?? Infinity)) {
+      nearest.set(template.label, distance);
+    }
+  });
+  if (nearest.size === 0) return null;
+
+  // Inverse-distance weights as a rough confidence
+  const ranked = Array.from(nearest.entries()).sort((a, b) => a[1] - b[1]);
+  const weights = ranked.map(([, distance]) => 1 / (distance + 1e-6));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const results = ranked.map(([label], i) => ({ label, confidence: weights[i] / total }));
+
+  const distance = ranked[0][1];
+  const isUnknown = threshold > 0 && distance > threshold;
+  return {
+    label: isUnknown ? UNKNOWN_LABEL : results[0].label,
+    confidence: isUnknown ? 0 : results[0].confidence,
+    distance,
+    results
+  };
+}
@@ -0,0 +1,87 @@
+import { TrainerSnapshot } from "../hooks/useTrainer";
+import { Modality } from "./featureExtractors";
+
+/**
+ * Trainer Autosave Store (IndexedDB)
+ *
+ * 每個 feature extractor 一筆 TrainerSnapshot（資料集、設定、訓練好的權重），
+ * 重新整理頁面或關掉某個模式後再打開時自動還原。
+ * 權重是 Uint8Array，IndexedDB 可以直接存，不需要轉成 base64。
+ * 每個 modality 最後使用的 extractor id 記在 localStorage，重新打開時回到同一個模式。
+ */
+
+const DB_NAME = 'visionlab';
+const DB_VERSION = 1;
+const STORE_NAME = 'trainers';
+const LAST_EXTRACTOR_STORAGE_KEY = 'visionlab-last-extractors';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/* ======================
+ * Helper Functions
+ * ====================== */
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'extractorId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/* ======================
+ * Main Export Functions
+ * ====================== */
+
+export async function loadTrainerSnapshot(extractorId: string): Promise<TrainerSnapshot | null> {
+  const snapshot = await withStore<TrainerSnapshot | undefined>('readonly', store => store.get(extractorId));
+  return snapshot ?? null;
+}
+
+export async function saveTrainerSnapshot(snapshot: TrainerSnapshot): Promise<void> {
+  await withStore('readwrite', store => store.put(snapshot));
+}
+
+/**
+ * 這個 modality 最後使用的 extractor id（沒有記錄時為 null）
+ */
+export function loadLastExtractorId(modality: Modality): string | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LAST_EXTRACTOR_STORAGE_KEY) || '{}');
+    return typeof saved?.[modality] === 'string' ? saved[modality] : null;
+  } catch (error) {
+    console.error('Failed to read last used extractors:', error);
+    return null;
+  }
+}
+
+export function saveLastExtractorId(modality: Modality, extractorId: string): void {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LAST_EXTRACTOR_STORAGE_KEY) || '{}');
+    localStorage.setItem(LAST_EXTRACTOR_STORAGE_KEY, JSON.stringify({ ...saved, [modality]: extractorId }));
+  } catch (error) {
+    console.error('Failed to save last used extractor:', error);
+  }
+}
@@ -0,0 +1,100 @@
+import { TrainingLogs } from "../types";
+
+/**
+ * Training Schedule Utilities
+ *
+ * - Learning-rate schedules: constant / step decay / cosine annealing
+ * - Early stopping: 監看指標連續 patience 個 epoch 沒進步就停止
+ */
+
+export type LearningRateSchedule = 'constant' | 'step' | 'cosine';
+export type MonitoredMetric = 'val_loss' | 'loss' | 'val_acc' | 'acc';
+
+export interface TrainingScheduleOptions {
+  earlyStopping: boolean;
+  monitor: MonitoredMetric;
+  patience: number;
+  restoreBestWeights: boolean;
+  lrSchedule: LearningRateSchedule;
+  stepSize: number;      // step decay: 每幾個 epoch 衰減一次
+  decayRate: number;     // step decay: 每次乘上的倍率
+  minLearningRate: number; // cosine: 最低學習率
+}
+
+export const DEFAULT_TRAINING_SCHEDULE: TrainingScheduleOptions = {
+  earlyStopping: false,
+  monitor: 'val_loss',
+  patience: 10,
+  restoreBestWeights: true,
+  lrSchedule: 'constant',
+  stepSize: 20,
+  decayRate: 0.5,
+  minLearningRate: 0.001
+};
+
+/**
+ * 計算某個 epoch（從 0 開始）應使用的學習率
+ */
+export function getScheduledLearningRate(
+  options: TrainingScheduleOptions,
+  baseRate: number,
+  epoch: number,
+  totalEpochs: number
+): number {
+  switch (options.lrSchedule) {
+    case 'step': {
+      const steps = Math.floor(epoch / Math.max(1, options.stepSize));
+      return baseRate * Math.pow(options.decayRate, steps);
+    }
+    case 'cosine': {
+      const progress = Math.min(1, epoch / Math.max(1, totalEpochs - 1));
+      const min = Math.min(options.minLearningRate, baseRate);
+      return min + (baseRate - min) * 0.5 * (1 + Math.cos(Math.PI * progress));
+    }
+    default:
+      return baseRate;
+  }
+}
+
+export interface EarlyStopping {
+  /**
+   * 每個 epoch 結束時呼叫
+   * @returns improved: 這個 epoch 是目前最佳；stop: 應該停止訓練
+   */
+  update: (epoch: number, logs: TrainingLogs) => { improved: boolean; stop: boolean };
+  getBestEpoch: () => number;
+}
+
+/**
+ * 建立 early stopping 狀態機
+ * 監看的驗證指標不存在時（沒有驗證集）自動改用對應的訓練指標
+ */
+export function createEarlyStopping(monitor: MonitoredMetric, patience: number): EarlyStopping {
+  const isLoss = monitor === 'val_loss' || monitor === 'loss';
+  const fallback: MonitoredMetric = isLoss ? 'loss' : 'acc';
+
+  let best = isLoss ? Infinity : -Infinity;
+  let bestEpoch = -1;
+  let wait = 0;
+
+  return {
+    update: (epoch, logs) => {
+      const value = logs?.[monitor] ?? logs?.[fallback];
+      if (typeof value !== 'number' || !isFinite(value)) {
+        return { improved: false, stop: false };
+      }
+
+      const improved = isLoss ? value < best : value > best;
+      if (improved) {
+        best = value;
+        bestEpoch = epoch;
+        wait = 0;
+      } else {
+        wait++;
+      }
+
+      return { improved, stop: wait >= Math.max(1, patience) };
+    },
+    getBestEpoch: () => bestEpoch
+  };
+}